@@ -1,13 +1,108 @@
+import { useState } from 'react';
 import { Tabs } from 'expo-router';
-import { useTheme } from 'react-native-paper';
+import { useTheme, Snackbar, Portal, Modal, Text, Button, IconButton } from 'react-native-paper';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-import { Platform } from 'react-native';
+import { Platform, View, ScrollView, StyleSheet } from 'react-native';
+import { format, parseISO } from 'date-fns';
+import { useUndoStore, UndoAction } from '../../src/stores/undoStore';
+
+// Offers to undo (or redo) the latest journal edit or settings change
+const UndoSnackbar = () => {
+  const { notice, undoTo, redoTo, dismissNotice } = useUndoStore();
+
+  return (
+    <Snackbar
+      key={notice?.actionId}
+      visible={!!notice}
+      onDismiss={dismissNotice}
+      duration={5000}
+      action={notice ? {
+        label: notice.kind === 'undo' ? 'Undo' : 'Redo',
+        onPress: () => (notice.kind === 'undo' ? undoTo : redoTo)(notice.actionId),
+      } : undefined}
+    >
+      {notice?.message}
+    </Snackbar>
+  );
+};
+
+// Header button listing recent changes; undoing a step also undoes every step after it
+const UndoHistoryButton = () => {
+  const theme = useTheme();
+  const { past, future, undo, redo, undoTo, redoTo } = useUndoStore();
+  const [visible, setVisible] = useState(false);
+
+  const renderStep = (action: UndoAction, undone: boolean) => (
+    <View key={action.id} style={[styles.historyRow, undone && styles.historyRowUndone]}>
+      <MaterialCommunityIcons
+        name={action.scope === 'journal' ? 'book-open-variant' : 'cog'}
+        size={18}
+        color={theme.colors.onSurfaceVariant}
+      />
+      <View style={styles.historyText}>
+        <Text variant="bodyMedium" numberOfLines={2} style={undone && styles.historyLabelUndone}>
+          {action.label}
+        </Text>
+        <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+          {format(parseISO(action.createdAt), 'h:mm a')}
+        </Text>
+      </View>
+      <IconButton
+        icon={undone ? 'redo' : 'undo'}
+        size={20}
+        onPress={() => (undone ? redoTo : undoTo)(action.id)}
+      />
+    </View>
+  );
+
+  return (
+    <>
+      <IconButton
+        icon="history"
+        onPress={() => setVisible(true)}
+        disabled={past.length === 0 && future.length === 0}
+      />
+      <Portal>
+        <Modal
+          visible={visible}
+          onDismiss={() => setVisible(false)}
+          contentContainerStyle={[styles.modal, { backgroundColor: theme.colors.surface }]}
+        >
+          <View style={styles.modalHeader}>
+            <Text variant="headlineSmall" style={styles.modalTitle}>Recent Changes</Text>
+            <IconButton icon="undo" onPress={undo} disabled={past.length === 0} />
+            <IconButton icon="redo" onPress={redo} disabled={future.length === 0} />
+          </View>
+          <ScrollView style={styles.historyList}>
+            {/* Newest first: steps that can be redone, then steps that can be undone */}
+            {[...future].reverse().map((action) => renderStep(action, true))}
+            {[...past].reverse().map((action) => renderStep(action, false))}
+            {past.length === 0 && future.length === 0 && (
+              <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                Nothing to undo
+              </Text>
+            )}
+          </ScrollView>
+          <View style={styles.modalActions}>
+            <Button onPress={() => setVisible(false)}>Close</Button>
+          </View>
+        </Modal>
+      </Portal>
+    </>
+  );
+};
 
 export default function TabsLayout() {
   const theme = useTheme();
 
   return (
     <Tabs
+      screenLayout={({ children }) => (
+        <View style={styles.screen}>
+          {children}
+          <UndoSnackbar />
+        </View>
+      )}
       screenOptions={{
         headerShown: true,
         headerStyle: {
@@ -32,6 +127,7 @@ export default function TabsLayout() {
         name="index"
         options={{
           title: 'Journal',
+          headerLeft: () => <UndoHistoryButton />,
           tabBarIcon: ({ color, size }) => (
             <MaterialCommunityIcons name="book-open-variant" size={size} color={color} />
           ),
@@ -50,6 +146,7 @@ export default function TabsLayout() {
         name="settings"
         options={{
           title: 'Settings',
+          headerLeft: () => <UndoHistoryButton />,
           tabBarIcon: ({ color, size }) => (
             <MaterialCommunityIcons name="cog" size={size} color={color} />
           ),
@@ -58,3 +155,45 @@ export default function TabsLayout() {
     </Tabs>
   );
 }
+
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+  },
+  modal: {
+    margin: 20,
+    padding: 24,
+    borderRadius: 16,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    flex: 1,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  historyList: {
+    maxHeight: 400,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  historyRowUndone: {
+    opacity: 0.5,
+  },
+  historyText: {
+    flex: 1,
+  },
+  historyLabelUndone: {
+    textDecorationLine: 'line-through',
+  },
+});
@@ -1,19 +1,28 @@
 import { useState, useEffect, useMemo } from 'react';
-import { View, StyleSheet, ScrollView, Dimensions, Pressable } from 'react-native';
+import { View, StyleSheet, ScrollView, Dimensions, Pressable, Alert } from 'react-native';
 import {
   Text,
   Card,
   useTheme,
   Surface,
   Divider,
+  IconButton,
+  Button,
+  ActivityIndicator,
 } from 'react-native-paper';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { LineChart, BarChart } from 'react-native-chart-kit';
-import { format, subDays, parseISO, differenceInDays, startOfMonth, endOfMonth, subMonths, getDaysInMonth, eachDayOfInterval } from 'date-fns';
+import { format, subDays, parseISO, differenceInDays, startOfMonth, endOfMonth, subMonths, getDaysInMonth, eachDayOfInterval, eachMonthOfInterval } from 'date-fns';
 import { useSettingsStore } from '../../src/stores/settingsStore';
 import { useEntriesStore } from '../../src/stores/entriesStore';
-import { Task, FamilyMember } from '../../src/types';
-import { isTaskVisibleOnDate, getVisibleTasks } from '../../src/utils/taskScheduleUtils';
+import { Task, FamilyMember, Section } from '../../src/types';
+import { isTaskVisibleOnDate, getVisibleTasks, wasActiveOnDate } from '../../src/utils/taskScheduleUtils';
+import { buildSectionCsv } from '../../src/utils/csvUtils';
+import { getScaleLabel, getScaleSteps, getTaskScale } from '../../src/utils/scaleUtils';
+import { formatDuration } from '../../src/utils/durationUtils';
+import { getSelectedOptions, getTaskChoice } from '../../src/utils/choiceUtils';
+import { fileExportService } from '../../src/services/fileExport';
+import { reportService } from '../../src/services/report';
 
 const screenWidth = Dimensions.get('window').width;
 
@@ -73,28 +82,39 @@ const CoinDisplay = ({ completed, total, color }: { completed: number; total: nu
 export default function DashboardScreen() {
   const theme = useTheme();
   const { members, loadSettings } = useSettingsStore();
-  const { getEntriesForRange, loadEntriesForMonth } = useEntriesStore();
+  const { getEntriesForRange, monthStatus, loadMonthWindow, saveEntriesToStorage } = useEntriesStore();
 
   const [dashboardView, setDashboardView] = useState<DashboardView>('charts');
   const [selectedMemberId, setSelectedMemberId] = useState<string | null>(null);
   const [selectedSectionId, setSelectedSectionId] = useState<string | null>(null);
   const [dateRange, setDateRange] = useState<DateRange>('7');
+  const [csvExporting, setCsvExporting] = useState(false);
+  const [csvError, setCsvError] = useState<string | null>(null);
+  const [reportLoading, setReportLoading] = useState<string | null>(null); // "month_memberId_action"
+  const [reportError, setReportError] = useState<string | null>(null);
 
   useEffect(() => {
     loadSettings();
   }, []);
 
-  useEffect(() => {
-    // Load entries for current and previous months based on date range
+  // Months the dashboard shows: the selected date range, plus last month for rewards
+  const windowMonths = useMemo(() => {
     const today = new Date();
-    const months = new Set<string>();
-    const daysToLoad = parseInt(dateRange);
-    for (let i = 0; i <= daysToLoad; i += 15) {
-      months.add(format(subDays(today, i), 'yyyy-MM'));
-    }
-    months.forEach((month) => loadEntriesForMonth(month));
+    const months = eachMonthOfInterval({
+      start: startOfMonth(subDays(today, parseInt(dateRange) - 1)),
+      end: today,
+    }).map((month) => format(month, 'yyyy-MM'));
+    const prevMonth = format(subMonths(today, 1), 'yyyy-MM');
+    return months.includes(prevMonth) ? months : [prevMonth, ...months];
   }, [dateRange]);
 
+  useEffect(() => {
+    loadMonthWindow('dashboard', windowMonths);
+  }, [windowMonths]);
+
+  const windowLoading = windowMonths.some((month) => monthStatus[month] === 'loading');
+  const windowError = windowMonths.some((month) => monthStatus[month] === 'error');
+
   useEffect(() => {
     if (members.length > 0 && !selectedMemberId) {
       setSelectedMemberId(members[0].id);
@@ -112,14 +132,6 @@ export default function DashboardScreen() {
     }
   }, [selectedMemberId, members]);
 
-  // Load current and previous month entries for rewards
-  useEffect(() => {
-    const today = new Date();
-    const prevMonth = subMonths(today, 1);
-    loadEntriesForMonth(format(today, 'yyyy-MM'));
-    loadEntriesForMonth(format(prevMonth, 'yyyy-MM'));
-  }, []);
-
   const selectedMember = members.find((m) => m.id === selectedMemberId);
 
   // Calculate rewards for all members (schedule-aware)
@@ -136,16 +148,24 @@ export default function DashboardScreen() {
     const datesInRange = eachDayOfInterval({ start: monthStart, end: monthEnd })
       .map(d => format(d, 'yyyy-MM-dd'));
 
-    return members.map((member) => {
+    // Archived members still get their rewards for the months before they were archived
+    return members.filter((member) => wasActiveOnDate(member, startDate)).map((member) => {
       const entries = getEntriesForRange(member.id, startDate, endDate);
 
+      // Whether a task counted on a date (scheduled, and nothing archived yet)
+      const isCounted = (section: Section, task: Task, date: string) =>
+        task.type === 'checkbox' &&
+        wasActiveOnDate(member, date) &&
+        wasActiveOnDate(section, date) &&
+        isTaskVisibleOnDate(task, date);
+
       // Calculate total possible coins (accounting for schedules per day)
       let totalPossibleCoins = 0;
       datesInRange.forEach(date => {
         member.sections.forEach((section) => {
           section.tasks.forEach(task => {
             // Only count checkbox tasks that are visible on this date
-            if (task.type === 'checkbox' && isTaskVisibleOnDate(task, date)) {
+            if (isCounted(section, task, date)) {
               totalPossibleCoins++;
             }
           });
@@ -160,7 +180,7 @@ export default function DashboardScreen() {
           if (section) {
             section.tasks.forEach((task) => {
               // Only count if task is checkbox AND visible on this date
-              if (task.type === 'checkbox' && isTaskVisibleOnDate(task, entry.date)) {
+              if (isCounted(section, task, entry.date)) {
                 const response = sectionEntry.taskResponses.find((tr) => tr.taskId === task.id);
                 if (response?.value === true) {
                   completedCoins++;
@@ -185,9 +205,10 @@ export default function DashboardScreen() {
     const prevMonth = subMonths(new Date(), 1);
     return {
       month: format(prevMonth, 'MMMM yyyy'),
+      monthKey: format(prevMonth, 'yyyy-MM'),
       data: calculateMonthRewards(prevMonth),
     };
-  }, [members, getEntriesForRange]);
+  }, [members, getEntriesForRange, monthStatus]);
 
   // Current month rewards (so far)
   const currentMonthRewardsData = useMemo(() => {
@@ -195,11 +216,12 @@ export default function DashboardScreen() {
     const dayOfMonth = today.getDate();
     return {
       month: format(today, 'MMMM yyyy'),
+      monthKey: format(today, 'yyyy-MM'),
       daysElapsed: dayOfMonth,
       totalDays: getDaysInMonth(today),
       data: calculateMonthRewards(today, dayOfMonth),
     };
-  }, [members, getEntriesForRange]);
+  }, [members, getEntriesForRange, monthStatus]);
   const selectedSection = selectedMember?.sections.find((s) => s.id === selectedSectionId);
 
   // Get all entries for the selected member (to find first entry date)
@@ -209,7 +231,7 @@ export default function DashboardScreen() {
     const startDate = format(subDays(today, 365), 'yyyy-MM-dd');
     const endDate = format(today, 'yyyy-MM-dd');
     return getEntriesForRange(selectedMemberId, startDate, endDate);
-  }, [selectedMemberId, getEntriesForRange]);
+  }, [selectedMemberId, getEntriesForRange, monthStatus]);
 
   // Find the first entry date for this section
   const firstEntryDate = useMemo(() => {
@@ -228,20 +250,23 @@ export default function DashboardScreen() {
     return sortedEntries[0].date;
   }, [allEntries, selectedSection]);
 
-  // Get entries for the selected date range, but limited to first entry date
-  const entries = useMemo(() => {
-    if (!selectedMemberId) return [];
-    const today = new Date();
-    let startDate = format(subDays(today, parseInt(dateRange) - 1), 'yyyy-MM-dd');
+  // Start of the selected date range, but limited to first entry date
+  const rangeStart = useMemo(() => {
+    const startDate = format(subDays(new Date(), parseInt(dateRange) - 1), 'yyyy-MM-dd');
 
     // If we have a first entry date and it's after our calculated start date, use it
     if (firstEntryDate && firstEntryDate > startDate) {
-      startDate = firstEntryDate;
+      return firstEntryDate;
     }
+    return startDate;
+  }, [dateRange, firstEntryDate]);
 
-    const endDate = format(today, 'yyyy-MM-dd');
-    return getEntriesForRange(selectedMemberId, startDate, endDate);
-  }, [selectedMemberId, dateRange, firstEntryDate, getEntriesForRange]);
+  // Get entries for the selected date range
+  const entries = useMemo(() => {
+    if (!selectedMemberId) return [];
+    const endDate = format(new Date(), 'yyyy-MM-dd');
+    return getEntriesForRange(selectedMemberId, rangeStart, endDate);
+  }, [selectedMemberId, rangeStart, getEntriesForRange, monthStatus]);
 
   // Calculate the effective date range (from first entry to today)
   const effectiveDays = useMemo(() => {
@@ -267,7 +292,9 @@ export default function DashboardScreen() {
       if (date < firstEntryDate) continue;
 
       // Get only visible checkbox tasks for this specific date
-      const visibleCheckboxTasks = allCheckboxTasks.filter(task => isTaskVisibleOnDate(task, date));
+      const visibleCheckboxTasks = wasActiveOnDate(selectedSection, date)
+        ? allCheckboxTasks.filter(task => isTaskVisibleOnDate(task, date))
+        : [];
 
       // Skip days with no scheduled checkbox tasks
       if (visibleCheckboxTasks.length === 0) {
@@ -302,11 +329,11 @@ export default function DashboardScreen() {
     return { labels, data, taskCount: allCheckboxTasks.length, average };
   }, [selectedSection, entries, effectiveDays, firstEntryDate]);
 
-  // Calculate numeric task data - only from first entry date
+  // Calculate numeric and duration task data - only from first entry date
   const numericData = useMemo(() => {
     if (!selectedSection || !firstEntryDate || effectiveDays === 0) return [];
 
-    const numericTasks = selectedSection.tasks.filter((t) => t.type === 'numeric');
+    const numericTasks = selectedSection.tasks.filter((t) => t.type === 'numeric' || t.type === 'duration');
     if (numericTasks.length === 0) return [];
 
     return numericTasks.map((task) => {
@@ -334,6 +361,70 @@ export default function DashboardScreen() {
     });
   }, [selectedSection, entries, effectiveDays, firstEntryDate]);
 
+  // Scale task ratings: how often each step was picked, and the rated days in order
+  const scaleData = useMemo(() => {
+    if (!selectedSection || !firstEntryDate || effectiveDays === 0) return [];
+
+    return selectedSection.tasks
+      .filter((t) => t.type === 'scale')
+      .map((task) => {
+        const scale = getTaskScale(task);
+        const steps = getScaleSteps(scale);
+        const counts = steps.map(() => 0);
+        const labels: string[] = [];
+        const data: number[] = [];
+
+        for (let i = effectiveDays - 1; i >= 0; i--) {
+          const date = format(subDays(new Date(), i), 'yyyy-MM-dd');
+          if (date < firstEntryDate) continue;
+
+          const entry = entries.find((e) => e.date === date);
+          const sectionEntry = entry?.sectionEntries.find((se) => se.sectionId === selectedSection.id);
+          const value = sectionEntry?.taskResponses.find((tr) => tr.taskId === task.id)?.value;
+          if (typeof value !== 'number' || value < scale.min || value > scale.max) continue;
+
+          labels.push(format(parseISO(date), 'M/d'));
+          data.push(value);
+          counts[value - scale.min]++;
+        }
+
+        const average = data.length > 0
+          ? Math.round((data.reduce((a, b) => a + b, 0) / data.length) * 10) / 10
+          : 0;
+        const stepLabels = steps.map((step) => getScaleLabel(scale, step) || String(step));
+
+        return { task, scale, stepLabels, counts, labels, data, average };
+      });
+  }, [selectedSection, entries, effectiveDays, firstEntryDate]);
+
+  // Choice task answers: how many answered days picked each option
+  const choiceData = useMemo(() => {
+    if (!selectedSection || !firstEntryDate || effectiveDays === 0) return [];
+
+    return selectedSection.tasks
+      .filter((t) => t.type === 'choice')
+      .map((task) => {
+        const counts = new Map<string, number>();
+        let answeredDays = 0;
+
+        for (let i = effectiveDays - 1; i >= 0; i--) {
+          const date = format(subDays(new Date(), i), 'yyyy-MM-dd');
+          if (date < firstEntryDate) continue;
+
+          const entry = entries.find((e) => e.date === date);
+          const sectionEntry = entry?.sectionEntries.find((se) => se.sectionId === selectedSection.id);
+          const picked = getSelectedOptions(task, sectionEntry?.taskResponses.find((tr) => tr.taskId === task.id)?.value);
+          if (picked.length === 0) continue;
+
+          answeredDays++;
+          picked.forEach((option) => counts.set(option.id, (counts.get(option.id) || 0) + 1));
+        }
+
+        const options = getTaskChoice(task).options.map((option) => ({ option, count: counts.get(option.id) || 0 }));
+        return { task, options, answeredDays };
+      });
+  }, [selectedSection, entries, effectiveDays, firstEntryDate]);
+
   // Calculate streak for checkbox tasks (schedule-aware)
   const streak = useMemo(() => {
     if (!selectedSection) return 0;
@@ -346,7 +437,9 @@ export default function DashboardScreen() {
       const date = format(subDays(new Date(), i), 'yyyy-MM-dd');
 
       // Get only visible checkbox tasks for this specific date
-      const visibleCheckboxTasks = allCheckboxTasks.filter(task => isTaskVisibleOnDate(task, date));
+      const visibleCheckboxTasks = wasActiveOnDate(selectedSection, date)
+        ? allCheckboxTasks.filter(task => isTaskVisibleOnDate(task, date))
+        : [];
 
       // Skip days with no scheduled checkbox tasks (don't break streak)
       if (visibleCheckboxTasks.length === 0) {
@@ -377,6 +470,75 @@ export default function DashboardScreen() {
 
   const memberColor = selectedMember?.color || theme.colors.primary;
 
+  // Share the selected member/section/date range as a CSV file
+  const handleExportCsv = async () => {
+    if (!selectedMember || !selectedSection) return;
+    setCsvExporting(true);
+    setCsvError(null);
+    try {
+      const endDate = format(new Date(), 'yyyy-MM-dd');
+      const csv = buildSectionCsv(selectedMember, selectedSection, entries, rangeStart, endDate);
+      const slug = `${selectedMember.name}-${selectedSection.name}`.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      await fileExportService.shareTextFile(`${slug}-${rangeStart}-${endDate}.csv`, csv, {
+        mimeType: 'text/csv',
+        UTI: 'public.comma-separated-values-text',
+        dialogTitle: 'Export CSV',
+      });
+    } catch (error) {
+      console.error('Failed to export CSV:', error);
+      setCsvError(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setCsvExporting(false);
+    }
+  };
+
+  // Print a member's monthly journal, or share it as a PDF
+  const handleReport = async (member: FamilyMember, month: string, action: 'print' | 'pdf') => {
+    setReportLoading(`${month}_${member.id}_${action}`);
+    setReportError(null);
+    try {
+      // Write out any debounced edits so the report is complete
+      await saveEntriesToStorage();
+      if (action === 'print') {
+        await reportService.printMonthlyReport(member, month);
+      } else {
+        await reportService.shareMonthlyReportPdf(member, month);
+      }
+    } catch (error) {
+      console.error('Failed to create report:', error);
+      setReportError(error instanceof Error ? error.message : 'Report failed');
+    } finally {
+      setReportLoading(null);
+    }
+  };
+
+  const renderReportActions = (member: FamilyMember, month: string) => (
+    <View style={styles.reportActions}>
+      <Button
+        mode="text"
+        compact
+        icon="printer"
+        textColor={member.color}
+        onPress={() => handleReport(member, month, 'print')}
+        loading={reportLoading === `${month}_${member.id}_print`}
+        disabled={reportLoading !== null}
+      >
+        Print
+      </Button>
+      <Button
+        mode="text"
+        compact
+        icon="file-pdf-box"
+        textColor={member.color}
+        onPress={() => handleReport(member, month, 'pdf')}
+        loading={reportLoading === `${month}_${member.id}_pdf`}
+        disabled={reportLoading !== null}
+      >
+        Share PDF
+      </Button>
+    </View>
+  );
+
   const chartConfig = {
     backgroundColor: 'transparent',
     backgroundGradientFrom: theme.colors.surface,
@@ -502,6 +664,9 @@ export default function DashboardScreen() {
                   >
                     {member.name}
                   </Text>
+                  {!!member.archivedAt && (
+                    <MaterialCommunityIcons name="archive-outline" size={14} color={theme.colors.onSurfaceVariant} />
+                  )}
                 </Pressable>
               );
             })}
@@ -541,6 +706,9 @@ export default function DashboardScreen() {
                   >
                     {section.name}
                   </Text>
+                  {!!section.archivedAt && (
+                    <MaterialCommunityIcons name="archive-outline" size={14} color={theme.colors.onSurfaceVariant} />
+                  )}
                 </Pressable>
               );
             })}
@@ -551,8 +719,10 @@ export default function DashboardScreen() {
       {/* Date Range Selector - Only show for Charts view */}
       {dashboardView === 'charts' && (
         <View style={styles.dateRangeContainer}>
+        <View style={styles.dateRangeRow}>
         <ScrollView
           horizontal
+          style={styles.dateRangeScroll}
           showsHorizontalScrollIndicator={false}
           contentContainerStyle={styles.dateRangeContent}
         >
@@ -588,9 +758,45 @@ export default function DashboardScreen() {
             );
           })}
         </ScrollView>
+        <IconButton
+          icon="file-delimited-outline"
+          iconColor={memberColor}
+          size={22}
+          onPress={handleExportCsv}
+          loading={csvExporting}
+          disabled={csvExporting || !selectedSection || !firstEntryDate}
+          accessibilityLabel="Export CSV"
+        />
+        </View>
+        {csvError && (
+          <View style={styles.csvError}>
+            <MaterialCommunityIcons name="alert-circle-outline" size={16} color={theme.colors.error} />
+            <Text variant="bodySmall" style={{ color: theme.colors.error, flex: 1 }}>
+              {csvError}
+            </Text>
+          </View>
+        )}
       </View>
       )}
 
+      {/* Month Loading State */}
+      {windowLoading && (
+        <View style={styles.loadingRow}>
+          <ActivityIndicator size="small" />
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+            Loading entries...
+          </Text>
+        </View>
+      )}
+      {!windowLoading && windowError && (
+        <View style={styles.loadingRow}>
+          <MaterialCommunityIcons name="alert-circle-outline" size={16} color={theme.colors.error} />
+          <Text variant="bodySmall" style={{ color: theme.colors.error, flex: 1 }}>
+            Some months couldn't be loaded, so totals may be incomplete
+          </Text>
+        </View>
+      )}
+
       {/* Charts View Content */}
       {dashboardView === 'charts' && (
       <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
@@ -670,28 +876,32 @@ export default function DashboardScreen() {
         )}
 
         {/* Numeric Task Charts */}
-        {numericData.map(({ task, labels, data, average, total }) => (
-          data.length > 1 && data.some((d) => d > 0) && (
+        {numericData.map(({ task, labels, data, average, total }) => {
+          // Durations are stored as seconds and shown as h:mm
+          const isDuration = task.type === 'duration';
+          const formatValue = (value: number) => (isDuration ? formatDuration(value) : String(value));
+          const unit = isDuration ? 'h:mm' : task.unit;
+          return data.length > 1 && data.some((d) => d > 0) && (
             <Surface key={task.id} style={styles.chartCard} elevation={1}>
               <View style={styles.chartHeader}>
                 <View style={styles.chartTitleRow}>
-                  <MaterialCommunityIcons name="numeric" size={20} color={memberColor} />
+                  <MaterialCommunityIcons name={isDuration ? 'timer-outline' : 'numeric'} size={20} color={memberColor} />
                   <Text variant="titleMedium" style={styles.chartTitle}>{task.name}</Text>
                 </View>
-                {task.unit && (
+                {unit && (
                   <View style={[styles.chartBadge, { backgroundColor: memberColor + '20' }]}>
-                    <Text variant="labelSmall" style={{ color: memberColor }}>{task.unit}</Text>
+                    <Text variant="labelSmall" style={{ color: memberColor }}>{unit}</Text>
                   </View>
                 )}
               </View>
               <View style={styles.numericStats}>
                 <View style={styles.numericStat}>
                   <Text variant="labelSmall" style={styles.numericStatLabel}>Average</Text>
-                  <Text variant="titleMedium" style={{ color: memberColor }}>{average}</Text>
+                  <Text variant="titleMedium" style={{ color: memberColor }}>{formatValue(average)}</Text>
                 </View>
                 <View style={styles.numericStat}>
                   <Text variant="labelSmall" style={styles.numericStatLabel}>Total</Text>
-                  <Text variant="titleMedium" style={{ color: memberColor }}>{total}</Text>
+                  <Text variant="titleMedium" style={{ color: memberColor }}>{formatValue(total)}</Text>
                 </View>
               </View>
               <Divider style={styles.chartDivider} />
@@ -705,6 +915,12 @@ export default function DashboardScreen() {
                 chartConfig={{
                   ...chartConfig,
                   barPercentage: Math.min(0.8, 6 / data.length),
+                  ...(isDuration
+                    ? {
+                        formatYLabel: (label: string) => formatDuration(Number(label)),
+                        formatTopBarValue: (value: number) => formatDuration(value),
+                      }
+                    : {}),
                 }}
                 style={styles.chart}
                 fromZero
@@ -715,6 +931,107 @@ export default function DashboardScreen() {
                 yAxisSuffix=""
               />
             </Surface>
+          );
+        })}
+
+        {/* Scale Task Charts */}
+        {scaleData.map(({ task, scale, stepLabels, counts, labels, data, average }) => (
+          data.length > 0 && (
+            <Surface key={task.id} style={styles.chartCard} elevation={1}>
+              <View style={styles.chartHeader}>
+                <View style={styles.chartTitleRow}>
+                  <MaterialCommunityIcons name="star-half-full" size={20} color={memberColor} />
+                  <Text variant="titleMedium" style={styles.chartTitle}>{task.name}</Text>
+                </View>
+                <View style={[styles.chartBadge, { backgroundColor: memberColor + '20' }]}>
+                  <Text variant="labelSmall" style={{ color: memberColor }}>{scale.min}–{scale.max}</Text>
+                </View>
+              </View>
+              <View style={styles.numericStats}>
+                <View style={styles.numericStat}>
+                  <Text variant="labelSmall" style={styles.numericStatLabel}>Average</Text>
+                  <Text variant="titleMedium" style={{ color: memberColor }}>{average}</Text>
+                </View>
+                <View style={styles.numericStat}>
+                  <Text variant="labelSmall" style={styles.numericStatLabel}>Days Rated</Text>
+                  <Text variant="titleMedium" style={{ color: memberColor }}>{data.length}</Text>
+                </View>
+              </View>
+              <Divider style={styles.chartDivider} />
+              <Text variant="labelMedium" style={styles.numericStatLabel}>Distribution</Text>
+              <BarChart
+                data={{
+                  labels: stepLabels,
+                  datasets: [{ data: counts }],
+                }}
+                width={screenWidth - 48}
+                height={180}
+                chartConfig={{
+                  ...chartConfig,
+                  barPercentage: Math.min(0.8, 4 / counts.length),
+                }}
+                style={styles.chart}
+                fromZero
+                showValuesOnTopOfBars
+                withInnerLines={true}
+                showBarTops={false}
+                yAxisLabel=""
+                yAxisSuffix=""
+              />
+              {data.length > 1 && (
+                <>
+                  <Text variant="labelMedium" style={styles.numericStatLabel}>Trend</Text>
+                  <LineChart
+                    data={{
+                      labels: getSmartLabels(labels),
+                      datasets: [{ data, strokeWidth: 3 }],
+                    }}
+                    width={screenWidth - 48}
+                    height={180}
+                    chartConfig={chartConfig}
+                    style={styles.chart}
+                    withInnerLines={true}
+                    withOuterLines={false}
+                    withVerticalLines={false}
+                    withDots={data.length <= 31}
+                    segments={Math.min(4, scale.max - scale.min)}
+                  />
+                </>
+              )}
+            </Surface>
+          )
+        ))}
+
+        {/* Choice Task Frequencies */}
+        {choiceData.map(({ task, options, answeredDays }) => (
+          answeredDays > 0 && (
+            <Surface key={task.id} style={styles.chartCard} elevation={1}>
+              <View style={styles.chartHeader}>
+                <View style={styles.chartTitleRow}>
+                  <MaterialCommunityIcons name="format-list-checks" size={20} color={memberColor} />
+                  <Text variant="titleMedium" style={styles.chartTitle}>{task.name}</Text>
+                </View>
+                <View style={[styles.chartBadge, { backgroundColor: memberColor + '20' }]}>
+                  <Text variant="labelSmall" style={{ color: memberColor }}>
+                    {answeredDays} day{answeredDays !== 1 ? 's' : ''}
+                  </Text>
+                </View>
+              </View>
+              <Divider style={styles.chartDivider} />
+              {options.map(({ option, count }) => (
+                <View key={option.id} style={styles.choiceRow}>
+                  <View style={styles.choiceLabelRow}>
+                    <Text variant="bodyMedium" style={styles.choiceLabel} numberOfLines={1}>{option.label}</Text>
+                    <Text variant="labelMedium" style={{ color: memberColor }}>
+                      {count} · {Math.round((count / answeredDays) * 100)}%
+                    </Text>
+                  </View>
+                  <View style={[styles.choiceTrack, { backgroundColor: theme.colors.surfaceVariant }]}>
+                    <View style={[styles.choiceBar, { width: `${(count / answeredDays) * 100}%`, backgroundColor: memberColor }]} />
+                  </View>
+                </View>
+              ))}
+            </Surface>
           )
         ))}
 
@@ -743,6 +1060,15 @@ export default function DashboardScreen() {
       {/* Rewards View Content */}
       {dashboardView === 'rewards' && (
         <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+          {reportError && (
+            <View style={styles.reportError}>
+              <MaterialCommunityIcons name="alert-circle-outline" size={16} color={theme.colors.error} />
+              <Text variant="bodySmall" style={{ color: theme.colors.error, flex: 1 }}>
+                {reportError}
+              </Text>
+            </View>
+          )}
+
           {/* Current Month Section */}
           <Surface style={[styles.rewardsHeader, { backgroundColor: '#E3F2FD' }]} elevation={1}>
             <MaterialCommunityIcons name="calendar-clock" size={32} color="#1976D2" />
@@ -788,6 +1114,7 @@ export default function DashboardScreen() {
                   </Text>
                 </View>
               </View>
+              {renderReportActions(member, currentMonthRewardsData.monthKey)}
             </Surface>
           ))}
 
@@ -833,6 +1160,7 @@ export default function DashboardScreen() {
                   </Text>
                 </View>
               </View>
+              {renderReportActions(member, prevMonthRewardsData.monthKey)}
             </Surface>
           ))}
 
@@ -911,6 +1239,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
   },
   sectionTab: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
     paddingHorizontal: 20,
     paddingVertical: 14,
     borderBottomWidth: 3,
@@ -924,6 +1255,13 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: 'rgba(0,0,0,0.06)',
   },
+  dateRangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dateRangeScroll: {
+    flex: 1,
+  },
   dateRangeContent: {
     paddingHorizontal: 16,
     paddingVertical: 10,
@@ -943,6 +1281,20 @@ const styles = StyleSheet.create({
   dateRangeText: {
     color: '#666',
   },
+  loadingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  csvError: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
   content: {
     flex: 1,
   },
@@ -1015,6 +1367,28 @@ const styles = StyleSheet.create({
     marginVertical: 12,
     marginLeft: -8,
   },
+  choiceRow: {
+    marginBottom: 10,
+  },
+  choiceLabelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  choiceLabel: {
+    flex: 1,
+  },
+  choiceTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  choiceBar: {
+    height: 8,
+    borderRadius: 4,
+  },
   numericStats: {
     flexDirection: 'row',
     paddingHorizontal: 16,
@@ -1145,6 +1519,17 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: 'rgba(0,0,0,0.06)',
   },
+  reportActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  reportError: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
   rewardMetaItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,5 +1,5 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { View, StyleSheet, Pressable, Platform, ScrollView, Keyboard } from 'react-native';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { View, StyleSheet, Pressable, Platform, ScrollView, Keyboard, Image } from 'react-native';
 import { KeyboardAwareScrollView } from 'react-native-keyboard-aware-scroll-view';
 import {
   Text,
@@ -11,17 +11,425 @@ import {
   ActivityIndicator,
   Surface,
   Divider,
+  Chip,
+  Portal,
+  Modal,
+  Button,
 } from 'react-native-paper';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-import { format, addDays, subDays, parseISO, isToday } from 'date-fns';
+import { format, addDays, subDays, subMonths, startOfMonth, eachMonthOfInterval, parseISO, isToday } from 'date-fns';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import { RichEditor, RichToolbar, actions } from 'react-native-pell-rich-editor';
+import * as ImagePicker from 'expo-image-picker';
+import {
+  useAudioPlayer,
+  useAudioPlayerStatus,
+  useAudioRecorder,
+  useAudioRecorderState,
+  RecordingPresets,
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+} from 'expo-audio';
 import { useSettingsStore } from '../../src/stores/settingsStore';
 import { useEntriesStore } from '../../src/stores/entriesStore';
 import { useAuthStore } from '../../src/stores/authStore';
-import { FamilyMember, Section, Task } from '../../src/types';
-import { getVisibleTasks } from '../../src/utils/taskScheduleUtils';
-import { router } from 'expo-router';
+import { useSyncStore } from '../../src/stores/syncStore';
+import { useBackupStore } from '../../src/stores/backupStore';
+import { useUndoStore } from '../../src/stores/undoStore';
+import { useStopwatchStore } from '../../src/stores/stopwatchStore';
+import { attachmentService } from '../../src/services/attachments';
+import { storageService } from '../../src/services/storage';
+import { Attachment, AttachmentKind, EntryChange, FamilyMember, Section, Task, TaskResponse } from '../../src/types';
+import { getVisibleTasks, getActiveMembers, getActiveSections } from '../../src/utils/taskScheduleUtils';
+import { getMonthKey } from '../../src/utils/dateUtils';
+import { formatScaleValue, getScaleLabel, getScaleSteps, getTaskScale } from '../../src/utils/scaleUtils';
+import { formatDuration, getStopwatchKey, getStopwatchSeconds, parseDuration } from '../../src/utils/durationUtils';
+import { formatChoiceValue, getTaskChoice, toggleChoice } from '../../src/utils/choiceUtils';
+import { formatMemoDuration, getActiveAttachments, getVoiceMemos } from '../../src/utils/attachmentUtils';
+import { router, Tabs } from 'expo-router';
+
+// Compact backup sync status shown in the journal header; tap to sync now
+const SyncStatusChip = () => {
+  const theme = useTheme();
+  const { isSyncing, syncError, passphraseRequired, pendingUploads, syncQueued, syncNow } = useSyncStore();
+  const { backendType } = useBackupStore();
+  const sessionExpired = useAuthStore((state) => state.sessionExpired) && backendType === 'googleDrive';
+
+  let icon = 'cloud-check-outline';
+  let label = 'Synced';
+  let color = theme.colors.onSurfaceVariant;
+  if (sessionExpired) {
+    icon = 'account-alert-outline';
+    label = 'Sign in again';
+    color = theme.colors.error;
+  } else if (passphraseRequired) {
+    icon = 'lock-alert-outline';
+    label = 'Passphrase needed';
+    color = theme.colors.error;
+  } else if (isSyncing) {
+    icon = 'cloud-sync-outline';
+    label = syncQueued ? 'Sync queued' : 'Syncing';
+    color = theme.colors.primary;
+  } else if (syncError) {
+    icon = 'cloud-alert';
+    label = 'Sync error';
+    color = theme.colors.error;
+  } else if (pendingUploads > 0) {
+    icon = 'cloud-upload-outline';
+    label = `${pendingUploads} pending`;
+    color = theme.colors.tertiary;
+  }
+
+  return (
+    <Chip
+      compact
+      icon={icon}
+      onPress={sessionExpired || passphraseRequired ? () => router.push('/(tabs)/settings') : syncNow}
+      disabled={syncQueued && !sessionExpired && !passphraseRequired}
+      style={styles.syncChip}
+      textStyle={[styles.syncChipText, { color }]}
+    >
+      {label}
+    </Chip>
+  );
+};
+
+// Duration task card: a stopwatch that adds to the day's total, which can also be typed in
+const StopwatchCard = ({
+  task,
+  memberId,
+  date,
+  sectionId,
+  seconds,
+  color,
+  onSave,
+}: {
+  task: Task;
+  memberId: string;
+  date: string;
+  sectionId: string;
+  seconds: number;
+  color?: string;
+  onSave: (seconds: number) => void;
+}) => {
+  const theme = useTheme();
+  const key = getStopwatchKey(memberId, date, sectionId, task.id);
+  const stopwatch = useStopwatchStore((state) => state.stopwatches[key]);
+  const [now, setNow] = useState(Date.now());
+  const [draft, setDraft] = useState<string | null>(null); // typed correction, while editing
+  const isRunning = !!stopwatch?.startedAt;
+
+  // Only the display ticks; the elapsed time comes from the stored start time
+  useEffect(() => {
+    if (!isRunning) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  const shownSeconds = isRunning ? getStopwatchSeconds(stopwatch, now) : seconds;
+  const draftSeconds = draft === null || draft.trim() === '' ? 0 : parseDuration(draft);
+
+  const handleStart = () => {
+    useStopwatchStore.getState().start({ memberId, date, sectionId, taskId: task.id }, seconds);
+  };
+
+  const handlePause = () => {
+    onSave(useStopwatchStore.getState().pause(key));
+  };
+
+  // A paused stopwatch has already saved its total
+  const handleStop = () => {
+    const total = useStopwatchStore.getState().stop(key);
+    if (isRunning) onSave(total);
+  };
+
+  const commitDraft = () => {
+    if (draftSeconds === null) return;
+    if (draftSeconds !== seconds) onSave(draftSeconds);
+    setDraft(null);
+  };
+
+  return (
+    <Surface style={styles.taskCard} elevation={1}>
+      <View style={styles.numericTask}>
+        <View style={styles.numericInfo}>
+          <Text variant="bodyLarge">{task.name}</Text>
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+            {isRunning ? 'Running' : stopwatch ? 'Paused' : 'Total (h:mm:ss)'}
+          </Text>
+        </View>
+        {draft !== null ? (
+          <TextInput
+            value={draft}
+            onChangeText={setDraft}
+            onSubmitEditing={commitDraft}
+            onBlur={commitDraft}
+            mode="outlined"
+            keyboardType="numbers-and-punctuation"
+            placeholder="h:mm"
+            autoFocus
+            style={styles.numericInput}
+            outlineColor={theme.colors.outline}
+            activeOutlineColor={color}
+            error={draftSeconds === null}
+          />
+        ) : (
+          <Pressable onPress={() => setDraft(formatDuration(seconds))} disabled={isRunning}>
+            <Text variant="headlineSmall" style={[styles.stopwatchTime, isRunning && { color }]}>
+              {formatDuration(shownSeconds, true)}
+            </Text>
+          </Pressable>
+        )}
+      </View>
+      {draftSeconds === null && (
+        <View style={styles.stopwatchError}>
+          <MaterialCommunityIcons name="alert-circle-outline" size={16} color={theme.colors.error} />
+          <Text variant="bodySmall" style={{ color: theme.colors.error, flex: 1 }}>
+            Type h:mm (e.g. 0:25) or minutes
+          </Text>
+        </View>
+      )}
+      <View style={styles.stopwatchControls}>
+        {isRunning ? (
+          <Button mode="contained-tonal" icon="pause" onPress={handlePause}>Pause</Button>
+        ) : (
+          <Button mode="contained" icon="play" buttonColor={color} onPress={handleStart} disabled={draft !== null}>
+            {stopwatch ? 'Resume' : 'Start'}
+          </Button>
+        )}
+        {stopwatch && (
+          <Button mode="outlined" icon="stop" onPress={handleStop}>Stop</Button>
+        )}
+        {!isRunning && draft === null && (
+          <IconButton
+            icon="pencil-outline"
+            size={20}
+            onPress={() => setDraft(formatDuration(seconds))}
+            accessibilityLabel="Correct time"
+          />
+        )}
+      </View>
+    </Surface>
+  );
+};
+
+// Local URI of an attachment's file; files added on another device are fetched from the backup on first view
+const useAttachmentUri = (attachment: Attachment, getUri: (attachment: Attachment) => string | null) => {
+  const [uri, setUri] = useState(() => getUri(attachment));
+  const [isMissing, setIsMissing] = useState(false);
+
+  useEffect(() => {
+    if (uri) return;
+    let cancelled = false;
+    storageService
+      .downloadAttachment(attachment)
+      .then((downloaded) => {
+        if (cancelled) return;
+        if (downloaded) {
+          setUri(getUri(attachment));
+        } else {
+          setIsMissing(true);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to download attachment:', error);
+        if (!cancelled) setIsMissing(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.id]);
+
+  return { uri, isMissing };
+};
+
+const AttachmentThumbnail = ({ attachment, onPress }: { attachment: Attachment; onPress: () => void }) => {
+  const theme = useTheme();
+  const { uri, isMissing } = useAttachmentUri(attachment, (a) => attachmentService.getThumbnailUri(a));
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={[styles.thumbnail, { backgroundColor: theme.colors.surfaceVariant }]}
+      accessibilityLabel="Open photo"
+    >
+      {uri ? (
+        <Image source={{ uri }} style={styles.thumbnailImage} />
+      ) : isMissing ? (
+        <MaterialCommunityIcons name="image-off-outline" size={24} color={theme.colors.onSurfaceVariant} />
+      ) : (
+        <ActivityIndicator size="small" />
+      )}
+    </Pressable>
+  );
+};
+
+// Records a voice memo; the finished recording is moved into the journal
+const VoiceMemoRecorder = ({ color, onRecorded }: { color?: string; onRecorded: (attachment: Attachment) => void }) => {
+  const theme = useTheme();
+  const recorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
+  const recorderState = useAudioRecorderState(recorder);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRecord = async () => {
+    setError(null);
+    try {
+      const permission = await requestRecordingPermissionsAsync();
+      if (!permission.granted) {
+        setError('Allow microphone access to record voice memos');
+        return;
+      }
+      await setAudioModeAsync({ allowsRecording: true, playsInSilentMode: true });
+      await recorder.prepareToRecordAsync();
+      recorder.record();
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      setError("Couldn't start recording. Please try again.");
+    }
+  };
+
+  const handleStop = async () => {
+    const durationMs = recorderState.durationMillis;
+    try {
+      await recorder.stop();
+      await setAudioModeAsync({ allowsRecording: false });
+      if (!recorder.uri) {
+        throw new Error('Recording has no file');
+      }
+      onRecorded(attachmentService.importRecording(recorder.uri, durationMs));
+    } catch (error) {
+      console.error('Failed to save recording:', error);
+      setError("Couldn't save the recording. Please try again.");
+    }
+  };
+
+  return (
+    <View style={styles.memoRecorder}>
+      {recorderState.isRecording ? (
+        <View style={styles.memoRecording}>
+          <MaterialCommunityIcons name="record-circle" size={20} color={theme.colors.error} />
+          <Text variant="titleMedium" style={styles.memoRecordingTime}>
+            {formatMemoDuration(recorderState.durationMillis)}
+          </Text>
+          <Button mode="contained" icon="stop" buttonColor={color} onPress={handleStop}>Stop</Button>
+        </View>
+      ) : (
+        <Button mode="outlined" icon="microphone" textColor={color} onPress={handleRecord}>
+          Record voice memo
+        </Button>
+      )}
+      {error && (
+        <View style={styles.attachmentError}>
+          <MaterialCommunityIcons name="alert-circle-outline" size={16} color={theme.colors.error} />
+          <Text variant="bodySmall" style={{ color: theme.colors.error, flex: 1 }}>
+            {error}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+// Inline playback for one voice memo
+const VoiceMemoPlayer = ({
+  attachment,
+  title,
+  color,
+  onRemove,
+}: {
+  attachment: Attachment;
+  title: string;
+  color?: string;
+  onRemove?: () => void;
+}) => {
+  const theme = useTheme();
+  const { uri, isMissing } = useAttachmentUri(attachment, (a) => attachmentService.getUri(a));
+  const player = useAudioPlayer(uri);
+  const status = useAudioPlayerStatus(player);
+  const durationMs = attachment.durationMs ?? status.duration * 1000;
+  const hasProgress = status.playing || (status.currentTime > 0 && !status.didJustFinish);
+
+  const togglePlayback = async () => {
+    if (status.playing) {
+      player.pause();
+      return;
+    }
+    try {
+      await setAudioModeAsync({ playsInSilentMode: true });
+      // Start over once the memo has played to the end
+      if (status.duration > 0 && status.currentTime >= status.duration) {
+        await player.seekTo(0);
+      }
+      player.play();
+    } catch (error) {
+      console.error('Failed to play voice memo:', error);
+    }
+  };
+
+  return (
+    <View style={styles.memoRow}>
+      <IconButton
+        icon={status.playing ? 'pause' : 'play'}
+        mode="contained-tonal"
+        iconColor={color}
+        onPress={togglePlayback}
+        disabled={!uri || !status.isLoaded}
+        accessibilityLabel={status.playing ? 'Pause voice memo' : 'Play voice memo'}
+      />
+      <View style={styles.memoInfo}>
+        <Text variant="bodyMedium">{title}</Text>
+        <Text variant="bodySmall" style={{ color: isMissing ? theme.colors.error : theme.colors.onSurfaceVariant }}>
+          {isMissing
+            ? "Not on this device yet. Sync to download it."
+            : hasProgress
+              ? `${formatMemoDuration(status.currentTime * 1000)} / ${formatMemoDuration(durationMs)}`
+              : formatMemoDuration(durationMs)}
+        </Text>
+      </View>
+      {!uri && !isMissing && <ActivityIndicator size="small" />}
+      {onRemove && (
+        <IconButton icon="delete-outline" size={20} onPress={onRemove} accessibilityLabel="Remove voice memo" />
+      )}
+    </View>
+  );
+};
+
+// One line of the day's change log, e.g. 'Checked "Homework done"'
+const describeChange = (change: EntryChange, member: FamilyMember | undefined): string => {
+  const section = member?.sections.find((s) => s.id === change.sectionId);
+  if (!change.taskId) {
+    return `Edited ${section?.name ?? 'deleted section'} notes`;
+  }
+
+  const task = section?.tasks.find((t) => t.id === change.taskId);
+  const name = task ? `"${task.name}"` : 'a deleted task';
+  switch (typeof change.value) {
+    case 'boolean':
+      return `${change.value ? 'Checked' : 'Unchecked'} ${name}`;
+    case 'number':
+      if (task?.type === 'scale') {
+        return `Rated ${name} ${formatScaleValue(getTaskScale(task), change.value)}`;
+      }
+      if (task?.type === 'duration') {
+        return `Set ${name} to ${formatDuration(change.value)}`;
+      }
+      return `Set ${name} to ${change.value}${task?.unit ? ` ${task.unit}` : ''}`;
+    case 'string':
+      return change.value ? `Answered ${name}: ${change.value}` : `Cleared ${name}`;
+    case 'object': {
+      const picked = task ? formatChoiceValue(task, change.value) : '';
+      return picked ? `Chose ${picked} for ${name}` : `Cleared ${name}`;
+    }
+    case 'undefined':
+      return `Cleared ${name}`;
+    default:
+      return `Edited ${name}`;
+  }
+};
+
+// Months the voice memo timeline shows at first and adds with each "Show earlier"
+const MEMO_TIMELINE_MONTHS = 3;
 
 export default function HomeScreen() {
   const theme = useTheme();
@@ -30,11 +438,20 @@ export default function HomeScreen() {
     currentDate,
     setCurrentDate,
     getEntry,
+    getChangesForDay,
+    getEntriesForRange,
     updateTaskResponse,
+    removeTaskResponse,
     updateSectionNotes,
-    loadEntriesForMonth,
+    addAttachment,
+    removeAttachment,
+    monthStatus,
+    loadMonthWindow,
   } = useEntriesStore();
-  const { isAuthenticated } = useAuthStore();
+  const { record: recordUndo, clear: clearUndo } = useUndoStore();
+  const { isAuthenticated, isGuest } = useAuthStore();
+  const { backendType, webdavConfig } = useBackupStore();
+  const syncEnabled = backendType === 'webdav' ? !!webdavConfig : !isGuest;
 
   const [selectedMemberId, setSelectedMemberId] = useState<string | null>(null);
   const [selectedSectionId, setSelectedSectionId] = useState<string | null>(null);
@@ -42,40 +459,74 @@ export default function HomeScreen() {
   const richEditorRef = useRef<RichEditor>(null);
   const scrollViewRef = useRef<KeyboardAwareScrollView>(null);
   const [currentScrollY, setCurrentScrollY] = useState(0);
+  const [notesRevision, setNotesRevision] = useState(0); // remounts the notes editor after an undo
+  const [showDayHistory, setShowDayHistory] = useState(false);
+  const [isAddingPhoto, setIsAddingPhoto] = useState(false);
+  const [photoError, setPhotoError] = useState<string | null>(null);
+  const [viewingPhoto, setViewingPhoto] = useState<Attachment | null>(null);
+  const [showMemoTimeline, setShowMemoTimeline] = useState(false);
+  const [memoMonthCount, setMemoMonthCount] = useState(MEMO_TIMELINE_MONTHS);
 
   useEffect(() => {
     loadSettings();
-    loadEntriesForMonth(format(parseISO(currentDate), 'yyyy-MM'));
+    loadMonthWindow('journal', [getMonthKey(currentDate)]);
   }, []);
 
+  // The memo timeline keeps its months in memory only while it is open
+  const memoWindowMonths = useMemo(() => {
+    if (!showMemoTimeline) return [];
+    const today = new Date();
+    return eachMonthOfInterval({
+      start: subMonths(startOfMonth(today), memoMonthCount - 1),
+      end: today,
+    }).map((month) => format(month, 'yyyy-MM'));
+  }, [showMemoTimeline, memoMonthCount]);
+
+  useEffect(() => {
+    loadMonthWindow('memos', memoWindowMonths);
+  }, [memoWindowMonths]);
+
   useEffect(() => {
     if (!isAuthenticated) {
       router.replace('/auth');
     }
   }, [isAuthenticated]);
 
+  // Journal undo steps only make sense for the day and member on screen
+  useEffect(() => {
+    clearUndo('journal');
+  }, [currentDate, selectedMemberId]);
+
+  // Archived members and sections are hidden from the journal
+  const activeMembers = useMemo(() => getActiveMembers(members), [members]);
+
   useEffect(() => {
-    // Auto-select first member if none selected
-    if (members.length > 0 && !selectedMemberId) {
-      setSelectedMemberId(members[0].id);
+    // Auto-select first member if none selected (or the selected one was archived)
+    if (activeMembers.length > 0 && !activeMembers.some((m) => m.id === selectedMemberId)) {
+      setSelectedMemberId(activeMembers[0].id);
     }
-  }, [members]);
+  }, [activeMembers]);
 
   useEffect(() => {
     // Auto-select first section when member changes
     if (selectedMemberId) {
-      const member = members.find(m => m.id === selectedMemberId);
-      if (member && member.sections.length > 0) {
-        setSelectedSectionId(member.sections[0].id);
+      const member = activeMembers.find(m => m.id === selectedMemberId);
+      const sections = member ? getActiveSections(member) : [];
+      if (sections.length > 0) {
+        if (!sections.some((s) => s.id === selectedSectionId)) {
+          setSelectedSectionId(sections[0].id);
+        }
       } else {
         setSelectedSectionId(null);
       }
     }
-  }, [selectedMemberId, members]);
+  }, [selectedMemberId, activeMembers]);
 
-  const selectedMember = members.find((m) => m.id === selectedMemberId);
-  const selectedSection = selectedMember?.sections.find((s) => s.id === selectedSectionId);
+  const selectedMember = activeMembers.find((m) => m.id === selectedMemberId);
+  const activeSections = selectedMember ? getActiveSections(selectedMember) : [];
+  const selectedSection = activeSections.find((s) => s.id === selectedSectionId);
   const entry = selectedMemberId ? getEntry(selectedMemberId, currentDate) : undefined;
+  const currentMonthStatus = monthStatus[getMonthKey(currentDate)];
 
   const handleDateChange = (days: number) => {
     const newDate = days > 0
@@ -99,7 +550,7 @@ export default function HomeScreen() {
     setShowDatePicker(true);
   };
 
-  const getTaskValue = (sectionId: string, taskId: string): boolean | string | number | undefined => {
+  const getTaskValue = (sectionId: string, taskId: string): TaskResponse['value'] | undefined => {
     if (!entry) return undefined;
     const sectionEntry = entry.sectionEntries.find((se) => se.sectionId === sectionId);
     if (!sectionEntry) return undefined;
@@ -113,18 +564,114 @@ export default function HomeScreen() {
     return sectionEntry?.notes || '';
   };
 
-  const handleTaskChange = (sectionId: string, taskId: string, value: boolean | string | number) => {
+  const handleTaskChange = (sectionId: string, taskId: string, value: TaskResponse['value']) => {
     if (selectedMemberId) {
-      updateTaskResponse(selectedMemberId, currentDate, sectionId, taskId, value);
+      const memberId = selectedMemberId;
+      const date = currentDate;
+      const previous = getTaskValue(sectionId, taskId);
+      const task = selectedSection?.tasks.find((t) => t.id === taskId);
+      updateTaskResponse(memberId, date, sectionId, taskId, value);
+
+      // Taps (checkboxes, scale steps, choices, stopwatch saves) are one step each; typing into a field is one step per run
+      const isTap = typeof value === 'boolean' || Array.isArray(value) || task?.type === 'scale' || task?.type === 'duration';
+      let label = `Edited "${task?.name}"`;
+      if (typeof value === 'boolean') {
+        label = `${value ? 'Checked' : 'Unchecked'} "${task?.name}"`;
+      } else if (task?.type === 'scale') {
+        label = `Rated "${task.name}" ${formatScaleValue(getTaskScale(task), value)}`;
+      } else if (task?.type === 'duration' && typeof value === 'number') {
+        label = `Set "${task.name}" to ${formatDuration(value)}`;
+      } else if (task?.type === 'choice') {
+        const picked = formatChoiceValue(task, value);
+        label = picked ? `Chose ${picked} for "${task.name}"` : `Cleared "${task.name}"`;
+      }
+      recordUndo({
+        scope: 'journal',
+        label,
+        key: isTap ? undefined : `task_${memberId}_${date}_${taskId}`,
+        // Undoing a first answer leaves the task unanswered rather than answered with an empty value
+        undo: () =>
+          previous === undefined
+            ? removeTaskResponse(memberId, date, sectionId, taskId)
+            : updateTaskResponse(memberId, date, sectionId, taskId, previous),
+        redo: () => updateTaskResponse(memberId, date, sectionId, taskId, value),
+      });
     }
   };
 
   const handleNotesChange = (sectionId: string, notes: string) => {
     if (selectedMemberId) {
-      updateSectionNotes(selectedMemberId, currentDate, sectionId, notes);
+      const memberId = selectedMemberId;
+      const date = currentDate;
+      const previous = getSectionNotes(sectionId);
+      if (notes === previous) return;
+      updateSectionNotes(memberId, date, sectionId, notes);
+
+      // The editor keeps its own content, so it is remounted to show undone notes
+      recordUndo({
+        scope: 'journal',
+        label: `Edited ${selectedSection?.name} notes`,
+        key: `notes_${memberId}_${date}_${sectionId}`,
+        undo: () => {
+          updateSectionNotes(memberId, date, sectionId, previous);
+          setNotesRevision((revision) => revision + 1);
+        },
+        redo: () => {
+          updateSectionNotes(memberId, date, sectionId, notes);
+          setNotesRevision((revision) => revision + 1);
+        },
+      });
+    }
+  };
+
+  const getSectionAttachments = (sectionId: string, kind: AttachmentKind): Attachment[] =>
+    getActiveAttachments(entry?.sectionEntries.find((se) => se.sectionId === sectionId), kind);
+
+  const handleAddPhoto = async (sectionId: string, fromCamera: boolean) => {
+    if (!selectedMemberId) return;
+    const memberId = selectedMemberId;
+    const date = currentDate;
+    setPhotoError(null);
+
+    try {
+      const permission = fromCamera
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) {
+        setPhotoError(fromCamera ? 'Allow camera access to take photos' : 'Allow photo library access to attach photos');
+        return;
+      }
+
+      const result = fromCamera
+        ? await ImagePicker.launchCameraAsync({ mediaTypes: ['images'] })
+        : await ImagePicker.launchImageLibraryAsync({ mediaTypes: ['images'], allowsMultipleSelection: true });
+      if (result.canceled) return;
+
+      setIsAddingPhoto(true);
+      for (const asset of result.assets) {
+        const attachment = await attachmentService.importImage(asset);
+        addAttachment(memberId, date, sectionId, attachment);
+      }
+    } catch (error) {
+      console.error('Failed to add photo:', error);
+      setPhotoError("Couldn't add the photo. Please try again.");
+    } finally {
+      setIsAddingPhoto(false);
     }
   };
 
+  const handleMemoRecorded = (sectionId: string, attachment: Attachment) => {
+    if (!selectedMemberId) return;
+    addAttachment(selectedMemberId, currentDate, sectionId, attachment);
+  };
+
+  // Removing deletes the attachment's file, so it isn't an undo step
+  const handleRemoveAttachment = (sectionId: string, attachment: Attachment) => {
+    if (!selectedMemberId) return;
+    removeAttachment(selectedMemberId, currentDate, sectionId, attachment);
+    setViewingPhoto(null);
+  };
+
   const getCompletionCount = (section: Section): { completed: number; total: number } => {
     // Only count visible tasks for the current date
     const visibleTasks = getVisibleTasks(section, currentDate);
@@ -219,6 +766,90 @@ export default function HomeScreen() {
           </Surface>
         );
 
+      case 'duration':
+        return (
+          <StopwatchCard
+            key={task.id}
+            task={task}
+            memberId={selectedMemberId!}
+            date={currentDate}
+            sectionId={selectedSectionId}
+            seconds={typeof value === 'number' ? value : 0}
+            color={selectedMember?.color}
+            onSave={(seconds) => handleTaskChange(selectedSectionId, task.id, seconds)}
+          />
+        );
+
+      case 'choice': {
+        const choice = getTaskChoice(task);
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <Surface key={task.id} style={styles.taskCard} elevation={1}>
+            <Text variant="labelLarge" style={styles.taskInputLabel}>{task.name}</Text>
+            {choice.options.length === 0 ? (
+              <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                No options yet. Add some in Settings.
+              </Text>
+            ) : (
+              <View style={styles.choiceRow}>
+                {choice.options.map((option) => {
+                  const isSelected = selected.includes(option.id);
+                  return (
+                    <Chip
+                      key={option.id}
+                      selected={isSelected}
+                      showSelectedCheck={choice.multiple}
+                      icon={!choice.multiple && isSelected ? 'radiobox-marked' : undefined}
+                      onPress={() => handleTaskChange(selectedSectionId, task.id, toggleChoice(choice, value, option.id))}
+                      style={isSelected ? { backgroundColor: (selectedMember?.color || theme.colors.primary) + '30' } : undefined}
+                    >
+                      {option.label}
+                    </Chip>
+                  );
+                })}
+              </View>
+            )}
+          </Surface>
+        );
+      }
+
+      case 'scale': {
+        const scale = getTaskScale(task);
+        return (
+          <Surface key={task.id} style={styles.taskCard} elevation={1}>
+            <Text variant="labelLarge" style={styles.taskInputLabel}>{task.name}</Text>
+            <View style={styles.scaleRow}>
+              {getScaleSteps(scale).map((step) => {
+                const selected = value === step;
+                const label = getScaleLabel(scale, step);
+                return (
+                  <Pressable
+                    key={step}
+                    onPress={() => !selected && handleTaskChange(selectedSectionId, task.id, step)}
+                    style={[
+                      styles.scaleStep,
+                      { borderColor: theme.colors.outline },
+                      selected && { backgroundColor: selectedMember?.color, borderColor: selectedMember?.color },
+                    ]}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                    accessibilityLabel={label ? `${step} ${label}` : String(step)}
+                  >
+                    {label && <Text style={[styles.scaleLabel, selected && { color: '#FFFFFF' }]} numberOfLines={1}>{label}</Text>}
+                    <Text
+                      variant={label ? 'labelSmall' : 'labelLarge'}
+                      style={{ color: selected ? '#FFFFFF' : theme.colors.onSurfaceVariant }}
+                    >
+                      {step}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </Surface>
+        );
+      }
+
       default:
         return null;
     }
@@ -232,7 +863,7 @@ export default function HomeScreen() {
     );
   }
 
-  if (members.length === 0) {
+  if (activeMembers.length === 0) {
     return (
       <View style={[styles.centered, { backgroundColor: theme.colors.background }]}>
         <MaterialCommunityIcons name="book-open-page-variant-outline" size={64} color={theme.colors.onSurfaceVariant} />
@@ -253,6 +884,163 @@ export default function HomeScreen() {
 
   return (
     <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <Tabs.Screen
+        options={{
+          headerRight: () => (
+            <View style={styles.headerActions}>
+              <IconButton icon="account-voice" onPress={() => setShowMemoTimeline(true)} accessibilityLabel="Voice memos" />
+              <IconButton icon="account-clock-outline" onPress={() => setShowDayHistory(true)} />
+              {syncEnabled && <SyncStatusChip />}
+            </View>
+          ),
+        }}
+      />
+
+      {/* Day History Modal */}
+      <Portal>
+        <Modal
+          visible={showDayHistory}
+          onDismiss={() => setShowDayHistory(false)}
+          contentContainerStyle={[styles.historyModal, { backgroundColor: theme.colors.surface }]}
+        >
+          <Text variant="headlineSmall">Day History</Text>
+          <Text variant="bodySmall" style={[styles.historySubtitle, { color: theme.colors.onSurfaceVariant }]}>
+            {selectedMember?.name} · {format(parseISO(currentDate), 'EEEE, MMMM d')}
+          </Text>
+          <ScrollView style={styles.historyList}>
+            {(() => {
+              const changes = selectedMemberId ? getChangesForDay(selectedMemberId, currentDate) : [];
+              if (changes.length === 0) {
+                return (
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                    No changes recorded for this day
+                  </Text>
+                );
+              }
+              return changes.map((change) => (
+                <View key={change.id} style={styles.historyRow}>
+                  <MaterialCommunityIcons
+                    name={change.taskId ? 'checkbox-marked-circle-outline' : 'note-text-outline'}
+                    size={20}
+                    color={selectedMember?.color}
+                  />
+                  <View style={styles.historyText}>
+                    <Text variant="bodyMedium" numberOfLines={2}>
+                      {describeChange(change, selectedMember)}
+                    </Text>
+                    <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                      {change.author || 'Unknown'} · {format(parseISO(change.timestamp), 'MMM d, h:mm a')}
+                    </Text>
+                  </View>
+                </View>
+              ));
+            })()}
+          </ScrollView>
+          <View style={styles.historyActions}>
+            <Button onPress={() => setShowDayHistory(false)}>Close</Button>
+          </View>
+        </Modal>
+      </Portal>
+
+      {/* Voice Memo Timeline Modal */}
+      <Portal>
+        <Modal
+          visible={showMemoTimeline}
+          onDismiss={() => setShowMemoTimeline(false)}
+          contentContainerStyle={[styles.historyModal, { backgroundColor: theme.colors.surface }]}
+        >
+          <Text variant="headlineSmall">Voice Memos</Text>
+          <Text variant="bodySmall" style={[styles.historySubtitle, { color: theme.colors.onSurfaceVariant }]}>
+            {selectedMember?.name} · since {memoWindowMonths.length > 0 ? format(parseISO(`${memoWindowMonths[0]}-01`), 'MMMM yyyy') : ''}
+          </Text>
+          <ScrollView style={styles.historyList}>
+            {(() => {
+              if (memoWindowMonths.some((month) => monthStatus[month] === 'loading')) {
+                return <ActivityIndicator />;
+              }
+              const memos = selectedMemberId && memoWindowMonths.length > 0
+                ? getVoiceMemos(getEntriesForRange(selectedMemberId, `${memoWindowMonths[0]}-01`, format(new Date(), 'yyyy-MM-dd')))
+                : [];
+              if (memos.length === 0) {
+                return (
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                    No voice memos recorded yet
+                  </Text>
+                );
+              }
+              return memos.map((memo, index) => (
+                <View key={memo.attachment.id}>
+                  {memos[index - 1]?.date !== memo.date && (
+                    <Pressable
+                      onPress={() => {
+                        setCurrentDate(memo.date);
+                        setShowMemoTimeline(false);
+                      }}
+                      style={styles.memoDate}
+                    >
+                      <Text variant="labelLarge" style={{ color: selectedMember?.color }}>
+                        {format(parseISO(memo.date), 'EEEE, MMMM d')}
+                      </Text>
+                      <MaterialCommunityIcons name="chevron-right" size={18} color={selectedMember?.color} />
+                    </Pressable>
+                  )}
+                  <VoiceMemoPlayer
+                    attachment={memo.attachment}
+                    title={`${selectedMember?.sections.find((s) => s.id === memo.sectionId)?.name ?? 'Deleted section'} · ${format(parseISO(memo.attachment.createdAt), 'h:mm a')}`}
+                    color={selectedMember?.color}
+                  />
+                </View>
+              ));
+            })()}
+          </ScrollView>
+          <View style={styles.historyActions}>
+            <Button onPress={() => setMemoMonthCount((count) => count + MEMO_TIMELINE_MONTHS)}>Show earlier</Button>
+            <Button onPress={() => setShowMemoTimeline(false)}>Close</Button>
+          </View>
+        </Modal>
+      </Portal>
+
+      {/* Photo Viewer Modal */}
+      <Portal>
+        <Modal
+          visible={!!viewingPhoto}
+          onDismiss={() => setViewingPhoto(null)}
+          contentContainerStyle={[styles.photoModal, { backgroundColor: theme.colors.surface }]}
+        >
+          {viewingPhoto && selectedSection && (
+            <>
+              {attachmentService.getUri(viewingPhoto) ? (
+                <Image
+                  source={{ uri: attachmentService.getUri(viewingPhoto)! }}
+                  style={[
+                    styles.photo,
+                    { aspectRatio: viewingPhoto.width && viewingPhoto.height ? viewingPhoto.width / viewingPhoto.height : 1 },
+                  ]}
+                  resizeMode="contain"
+                />
+              ) : (
+                <View style={styles.photoUnavailable}>
+                  <MaterialCommunityIcons name="image-off-outline" size={40} color={theme.colors.onSurfaceVariant} />
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                    This photo isn't on this device yet. Sync to download it.
+                  </Text>
+                </View>
+              )}
+              <View style={styles.historyActions}>
+                <Button
+                  icon="delete-outline"
+                  textColor={theme.colors.error}
+                  onPress={() => handleRemoveAttachment(selectedSection.id, viewingPhoto)}
+                >
+                  Remove
+                </Button>
+                <Button onPress={() => setViewingPhoto(null)}>Close</Button>
+              </View>
+            </>
+          )}
+        </Modal>
+      </Portal>
+
       {/* Date Header */}
       <Surface style={styles.dateHeader} elevation={2}>
         <IconButton icon="chevron-left" onPress={() => handleDateChange(-1)} size={28} />
@@ -295,7 +1083,7 @@ export default function HomeScreen() {
           showsHorizontalScrollIndicator={false}
           contentContainerStyle={styles.tabsContent}
         >
-          {members.map((member) => {
+          {activeMembers.map((member) => {
             const isSelected = selectedMemberId === member.id;
             return (
               <Pressable
@@ -323,14 +1111,14 @@ export default function HomeScreen() {
       </View>
 
       {/* Section Tabs */}
-      {selectedMember && selectedMember.sections.length > 0 && (
+      {selectedMember && activeSections.length > 0 && (
         <View style={styles.sectionTabsContainer}>
           <ScrollView
             horizontal
             showsHorizontalScrollIndicator={false}
             contentContainerStyle={styles.sectionTabsContent}
           >
-            {selectedMember.sections.map((section) => {
+            {activeSections.map((section) => {
               const isSelected = selectedSectionId === section.id;
               const { completed, total } = getCompletionCount(section);
               return (
@@ -388,7 +1176,7 @@ export default function HomeScreen() {
         onScroll={(event) => setCurrentScrollY(event.nativeEvent.contentOffset.y)}
         scrollEventThrottle={16}
       >
-        {selectedMember?.sections.length === 0 && (
+        {selectedMember && activeSections.length === 0 && (
           <Surface style={styles.emptySection} elevation={0}>
             <MaterialCommunityIcons name="folder-plus-outline" size={48} color={theme.colors.onSurfaceVariant} />
             <Text variant="titleMedium" style={styles.emptySectionTitle}>No sections yet</Text>
@@ -398,13 +1186,32 @@ export default function HomeScreen() {
           </Surface>
         )}
 
-        {selectedSection && (
+        {/* Placeholder until the month's entries are in memory (the notes editor only reads them once) */}
+        {selectedSection && currentMonthStatus !== 'loaded' && currentMonthStatus !== 'error' && (
+          <Surface style={styles.emptyTasks} elevation={0}>
+            <ActivityIndicator />
+            <Text variant="bodyMedium" style={styles.emptyTasksText}>
+              Loading entries...
+            </Text>
+          </Surface>
+        )}
+
+        {selectedSection && currentMonthStatus === 'error' && (
+          <View style={styles.loadError}>
+            <MaterialCommunityIcons name="alert-circle-outline" size={16} color={theme.colors.error} />
+            <Text variant="bodySmall" style={{ color: theme.colors.error, flex: 1 }}>
+              Couldn't load this month's entries. Changes you make are still saved.
+            </Text>
+          </View>
+        )}
+
+        {selectedSection && (currentMonthStatus === 'loaded' || currentMonthStatus === 'error') && (
           <>
             {/* Tasks */}
             {(() => {
               const visibleTasks = getVisibleTasks(selectedSection, currentDate);
 
-              if (selectedSection.tasks.length === 0) {
+              if (selectedSection.tasks.every((task) => task.archivedAt)) {
                 return (
                   <Surface style={styles.emptyTasks} elevation={0}>
                     <MaterialCommunityIcons name="clipboard-text-outline" size={40} color={theme.colors.onSurfaceVariant} />
@@ -437,8 +1244,60 @@ export default function HomeScreen() {
             <Surface style={styles.notesCard} elevation={1}>
               <View style={styles.notesHeader}>
                 <MaterialCommunityIcons name="note-text-outline" size={20} color={selectedMember?.color} />
-                <Text variant="labelLarge" style={{ color: selectedMember?.color }}>Notes</Text>
+                <Text variant="labelLarge" style={[styles.notesTitle, { color: selectedMember?.color }]}>Notes</Text>
+                {isAddingPhoto ? (
+                  <ActivityIndicator size="small" />
+                ) : (
+                  <>
+                    <IconButton
+                      icon="image-plus"
+                      size={20}
+                      onPress={() => handleAddPhoto(selectedSection.id, false)}
+                      accessibilityLabel="Add photo"
+                    />
+                    <IconButton
+                      icon="camera-outline"
+                      size={20}
+                      onPress={() => handleAddPhoto(selectedSection.id, true)}
+                      accessibilityLabel="Take photo"
+                    />
+                  </>
+                )}
               </View>
+              {getSectionAttachments(selectedSection.id, 'image').length > 0 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.thumbnailRow}>
+                  {getSectionAttachments(selectedSection.id, 'image').map((attachment) => (
+                    <AttachmentThumbnail
+                      key={attachment.id}
+                      attachment={attachment}
+                      onPress={() => setViewingPhoto(attachment)}
+                    />
+                  ))}
+                </ScrollView>
+              )}
+              {getSectionAttachments(selectedSection.id, 'audio').map((attachment) => (
+                <VoiceMemoPlayer
+                  key={attachment.id}
+                  attachment={attachment}
+                  title={`Voice memo · ${format(parseISO(attachment.createdAt), 'h:mm a')}`}
+                  color={selectedMember?.color}
+                  onRemove={() => handleRemoveAttachment(selectedSection.id, attachment)}
+                />
+              ))}
+              {/* Switching section or day discards an unfinished recording */}
+              <VoiceMemoRecorder
+                key={`${selectedSection.id}-${currentDate}`}
+                color={selectedMember?.color}
+                onRecorded={(attachment) => handleMemoRecorded(selectedSection.id, attachment)}
+              />
+              {photoError && (
+                <View style={styles.attachmentError}>
+                  <MaterialCommunityIcons name="alert-circle-outline" size={16} color={theme.colors.error} />
+                  <Text variant="bodySmall" style={{ color: theme.colors.error, flex: 1 }}>
+                    {photoError}
+                  </Text>
+                </View>
+              )}
               <RichToolbar
                 editor={richEditorRef}
                 actions={[
@@ -456,7 +1315,7 @@ export default function HomeScreen() {
               />
               <View style={[styles.editorContainer, { borderColor: theme.colors.outline }]}>
                 <RichEditor
-                  key={`${selectedSection.id}-${currentDate}`}
+                  key={`${selectedSection.id}-${currentDate}-${notesRevision}`}
                   ref={richEditorRef}
                   initialContentHTML={getSectionNotes(selectedSection.id)}
                   onChange={(html) => handleNotesChange(selectedSection.id, html)}
@@ -518,6 +1377,17 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: 16,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  syncChip: {
+    marginRight: 12,
+  },
+  syncChipText: {
+    fontSize: 12,
+    marginVertical: 0,
+  },
   dateHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -662,6 +1532,42 @@ const styles = StyleSheet.create({
   textInput: {
     backgroundColor: 'transparent',
   },
+  choiceRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  scaleRow: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  scaleStep: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 44,
+    paddingVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  scaleLabel: {
+    fontSize: 18,
+  },
+  stopwatchTime: {
+    fontVariant: ['tabular-nums'],
+  },
+  stopwatchError: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  stopwatchControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
   numericTask: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -687,6 +1593,73 @@ const styles = StyleSheet.create({
     gap: 10,
     marginBottom: 14,
   },
+  notesTitle: {
+    flex: 1,
+  },
+  thumbnailRow: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  thumbnail: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    overflow: 'hidden',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+  attachmentError: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  photoModal: {
+    margin: 20,
+    padding: 16,
+    borderRadius: 16,
+  },
+  photo: {
+    width: '100%',
+    maxHeight: 480,
+    borderRadius: 8,
+  },
+  photoUnavailable: {
+    alignItems: 'center',
+    gap: 12,
+    padding: 24,
+  },
+  memoRecorder: {
+    marginBottom: 12,
+  },
+  memoRecording: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  memoRecordingTime: {
+    flex: 1,
+    fontVariant: ['tabular-nums'],
+  },
+  memoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 8,
+  },
+  memoInfo: {
+    flex: 1,
+  },
+  memoDate: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 8,
+  },
   richToolbar: {
     borderRadius: 8,
     marginBottom: 8,
@@ -700,4 +1673,36 @@ const styles = StyleSheet.create({
   richEditor: {
     minHeight: 120,
   },
+  loadError: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  historyModal: {
+    margin: 20,
+    padding: 24,
+    borderRadius: 16,
+  },
+  historySubtitle: {
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  historyList: {
+    maxHeight: 400,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  historyText: {
+    flex: 1,
+  },
+  historyActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
 });
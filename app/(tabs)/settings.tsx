@@ -18,14 +18,49 @@ import {
   Switch,
 } from 'react-native-paper';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { format, parseISO } from 'date-fns';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import * as Crypto from 'expo-crypto';
 import * as Notifications from 'expo-notifications';
 import { useSettingsStore } from '../../src/stores/settingsStore';
 import { useEntriesStore } from '../../src/stores/entriesStore';
 import { useAuthStore } from '../../src/stores/authStore';
+import { useSyncStore } from '../../src/stores/syncStore';
+import { useBackupStore } from '../../src/stores/backupStore';
+import { useStopwatchStore } from '../../src/stores/stopwatchStore';
 import { storageService } from '../../src/services/storage';
-import { TaskType, FamilyMember, Section, DayOfWeek } from '../../src/types';
+import { webDavService } from '../../src/services/webdav';
+import { archiveService } from '../../src/services/archive';
+import { signInWithGoogle } from '../../src/services/googleAuth';
+import {
+  TaskType,
+  FamilyMember,
+  Section,
+  DayOfWeek,
+  BackendType,
+  ExportArchive,
+  ImportMode,
+  ImportPreview,
+  HistoryTarget,
+  IntegrityIssue,
+  IntegrityReport,
+  MonthlyEntries,
+  TaskScale,
+  TaskChoice,
+  ChoiceOption,
+} from '../../src/types';
 import { getScheduleDescription } from '../../src/utils/taskScheduleUtils';
+import { checkIntegrity, getOrphanTargets } from '../../src/utils/integrityUtils';
+import {
+  DEFAULT_SCALE,
+  MOOD_EMOJIS,
+  SCALE_HIGHEST,
+  SCALE_LOWEST,
+  getScaleLabel,
+  getScaleSteps,
+  getTaskScale,
+} from '../../src/utils/scaleUtils';
+import { getTaskChoice } from '../../src/utils/choiceUtils';
 import { router } from 'expo-router';
 
 // Configure notifications
@@ -46,11 +81,54 @@ const COLORS = [
   '#FDD835', '#FFB300', '#FB8C00', '#F4511E',
 ];
 
+// One line of the import preview: what importing would add, change or remove
+interface ImportSummaryRow {
+  icon: keyof typeof MaterialCommunityIcons.glyphMap;
+  label: string;
+  items: string[];
+}
+
+const getImportSummary = (preview: ImportPreview, mode: ImportMode): ImportSummaryRow[] => {
+  const rows: ImportSummaryRow[] = [
+    { icon: 'account-plus-outline', label: 'New members', items: preview.addedMembers },
+    { icon: 'account-edit-outline', label: 'Updated members', items: preview.updatedMembers },
+    { icon: 'calendar-plus', label: 'New months', items: preview.addedMonths },
+    { icon: 'calendar-edit', label: 'Changed months', items: preview.changedMonths },
+  ];
+  if (mode === 'replace') {
+    rows.push(
+      { icon: 'account-remove-outline', label: 'Removed members', items: preview.removedMembers },
+      { icon: 'calendar-remove', label: 'Removed months', items: preview.removedMonths }
+    );
+  }
+  return rows;
+};
+
 export default function SettingsScreen() {
   const theme = useTheme();
-  const { members, loadSettings, addMember, updateMember, deleteMember, addSection, updateSection, deleteSection, addTask, updateTask, deleteTask, resetStore: resetSettingsStore } = useSettingsStore();
-  const { resetStore: resetEntriesStore } = useEntriesStore();
-  const { isGuest, userEmail, logout } = useAuthStore();
+  const { members, loadSettings, addMember, updateMember, setMemberArchived, deleteMember, addSection, updateSection, setSectionArchived, deleteSection, addTask, updateTask, setTaskArchived, deleteTask, recordPurgedHistory, reattachOrphans, resetStore: resetSettingsStore } = useSettingsStore();
+  const { refreshMonths, saveEntriesToStorage, purgeHistory, repairTypeMismatches, resetStore: resetEntriesStore } = useEntriesStore();
+  const { isGuest, userEmail, sessionExpired, setAuth, logout } = useAuthStore();
+  const {
+    lastSyncTime,
+    isSyncing,
+    syncError,
+    passphraseRequired,
+    pendingUploads,
+    syncQueued,
+    syncNow,
+    resetStore: resetSyncStore,
+  } = useSyncStore();
+  const {
+    backendType,
+    webdavConfig,
+    encryptionEnabled,
+    setBackendType,
+    setWebDavConfig,
+    setEncryptionPassphrase,
+    unlockEncryption,
+    disableEncryption,
+  } = useBackupStore();
 
   // Modal states
   const [memberModalVisible, setMemberModalVisible] = useState(false);
@@ -69,6 +147,11 @@ export default function SettingsScreen() {
   const [taskName, setTaskName] = useState('');
   const [taskType, setTaskType] = useState<TaskType>('checkbox');
   const [taskUnit, setTaskUnit] = useState('');
+  const [scaleMin, setScaleMin] = useState(String(DEFAULT_SCALE.min));
+  const [scaleMax, setScaleMax] = useState(String(DEFAULT_SCALE.max));
+  const [scaleLabels, setScaleLabels] = useState<Record<number, string>>({}); // keyed by step, so changing the range keeps labels
+  const [choiceOptions, setChoiceOptions] = useState<ChoiceOption[]>([]);
+  const [choiceMultiple, setChoiceMultiple] = useState(false);
 
   // Task schedule and reminder states
   const [taskScheduleEnabled, setTaskScheduleEnabled] = useState(false);
@@ -86,7 +169,44 @@ export default function SettingsScreen() {
   const [reminderTime, setReminderTime] = useState(new Date(new Date().setHours(20, 0, 0, 0)));
   const [showTimePicker, setShowTimePicker] = useState(false);
 
+  // Re-authentication after the Google session expires
+  const [reauthLoading, setReauthLoading] = useState(false);
+
+  // WebDAV server form
+  const [webdavModalVisible, setWebdavModalVisible] = useState(false);
+  const [webdavUrl, setWebdavUrl] = useState('');
+  const [webdavUsername, setWebdavUsername] = useState('');
+  const [webdavPassword, setWebdavPassword] = useState('');
+  const [webdavTesting, setWebdavTesting] = useState(false);
+  const [webdavTestResult, setWebdavTestResult] = useState<{ success: boolean; error?: string } | null>(null);
+
+  // Encryption passphrase form
+  const [encryptionModalMode, setEncryptionModalMode] = useState<'set' | 'unlock' | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [encryptionError, setEncryptionError] = useState<string | null>(null);
+  const [encryptionLoading, setEncryptionLoading] = useState(false);
+
+  // Export / import
+  const [exportLoading, setExportLoading] = useState(false);
+  const [importArchive, setImportArchive] = useState<ExportArchive | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [importLoading, setImportLoading] = useState(false);
+  const [archiveError, setArchiveError] = useState<string | null>(null);
+
   // Clean Slate states
+  // Purge history confirmation (for an archived member, section or task)
+  const [purgeRequest, setPurgeRequest] = useState<{ target: HistoryTarget; name: string } | null>(null);
+  const [purgeLoading, setPurgeLoading] = useState(false);
+
+  // Data integrity check
+  const [integrityReport, setIntegrityReport] = useState<IntegrityReport | null>(null);
+  const [integrityMonths, setIntegrityMonths] = useState<MonthlyEntries[]>([]);
+  const [integrityLoading, setIntegrityLoading] = useState<'check' | 'prune' | 'reattach' | null>(null);
+  const [integrityError, setIntegrityError] = useState<string | null>(null);
+  const [membersUnconfirmed, setMembersUnconfirmed] = useState(false);
+
   const [cleanSlateModalVisible, setCleanSlateModalVisible] = useState(false);
   const [cleanSlateConfirmText, setCleanSlateConfirmText] = useState('');
   const [cleanSlateLoading, setCleanSlateLoading] = useState(false);
@@ -268,6 +388,12 @@ export default function SettingsScreen() {
         setTaskName(task.name);
         setTaskType(task.type);
         setTaskUnit(task.unit || '');
+        const scale = getTaskScale(task);
+        setScaleMin(String(scale.min));
+        setScaleMax(String(scale.max));
+        setScaleLabels(Object.fromEntries(getScaleSteps(scale).map((step) => [step, getScaleLabel(scale, step) || ''])));
+        setChoiceOptions(getTaskChoice(task).options);
+        setChoiceMultiple(getTaskChoice(task).multiple);
         // Load schedule
         setTaskScheduleEnabled(task.schedule?.enabled ?? false);
         setTaskScheduleDays(task.schedule?.days ?? []);
@@ -286,6 +412,11 @@ export default function SettingsScreen() {
       setTaskName('');
       setTaskType('checkbox');
       setTaskUnit('');
+      setScaleMin(String(DEFAULT_SCALE.min));
+      setScaleMax(String(DEFAULT_SCALE.max));
+      setScaleLabels({});
+      setChoiceOptions([]);
+      setChoiceMultiple(false);
       setTaskScheduleEnabled(false);
       setTaskScheduleDays([]);
       setTaskReminderEnabled(false);
@@ -294,9 +425,43 @@ export default function SettingsScreen() {
     setTaskModalVisible(true);
   };
 
+  // The scale typed into the task modal, or null while the range isn't valid
+  const getEditedScale = (): TaskScale | null => {
+    const min = Number(scaleMin);
+    const max = Number(scaleMax);
+    if (!Number.isInteger(min) || !Number.isInteger(max) || min < SCALE_LOWEST || max > SCALE_HIGHEST || max <= min) {
+      return null;
+    }
+    const labels = getScaleSteps({ min, max }).map((step) => scaleLabels[step]?.trim() || '');
+    return { min, max, ...(labels.some(Boolean) ? { labels } : {}) };
+  };
+
+  const applyMoodPreset = () => {
+    setScaleMin('1');
+    setScaleMax('5');
+    setScaleLabels(Object.fromEntries(MOOD_EMOJIS.map((emoji, i) => [i + 1, emoji])));
+  };
+
+  // Options typed into the task modal; blank ones are dropped
+  const getEditedChoice = (): TaskChoice | null => {
+    const options = choiceOptions
+      .map((option) => ({ ...option, label: option.label.trim() }))
+      .filter((option) => option.label);
+    return options.length > 0 ? { options, multiple: choiceMultiple } : null;
+  };
+
+  const updateChoiceOption = (id: string, label: string) => {
+    setChoiceOptions((options) => options.map((option) => (option.id === id ? { ...option, label } : option)));
+  };
+
   const saveTask = () => {
     if (!editingTask || !taskName.trim()) return;
 
+    const scale = taskType === 'scale' ? getEditedScale() : undefined;
+    if (scale === null) return;
+    const choice = taskType === 'choice' ? getEditedChoice() : undefined;
+    if (choice === null) return;
+
     const schedule = taskScheduleEnabled ? {
       enabled: true,
       days: taskScheduleDays,
@@ -313,6 +478,8 @@ export default function SettingsScreen() {
         name: taskName.trim(),
         type: taskType,
         unit: taskType === 'numeric' ? taskUnit.trim() || undefined : undefined,
+        scale,
+        choice,
         schedule,
         reminder,
       });
@@ -324,7 +491,9 @@ export default function SettingsScreen() {
         taskType,
         taskType === 'numeric' ? taskUnit.trim() || undefined : undefined,
         schedule,
-        reminder
+        reminder,
+        scale,
+        choice
       );
     }
     setTaskModalVisible(false);
@@ -345,11 +514,169 @@ export default function SettingsScreen() {
     );
   };
 
+  // Sync runs against Google Drive when signed in, or a configured WebDAV server in any mode
+  const syncEnabled = backendType === 'webdav' ? !!webdavConfig : !isGuest;
+
   const handleLogout = () => {
     logout();
     router.replace('/auth');
   };
 
+  const handleSignInAgain = async () => {
+    setReauthLoading(true);
+    try {
+      const result = await signInWithGoogle();
+      if (result.success) {
+        setAuth({
+          accessToken: result.accessToken || null,
+          userEmail: result.email || null,
+          userName: result.name || null,
+          sessionExpired: false,
+        });
+        await syncNow();
+      }
+    } finally {
+      setReauthLoading(false);
+    }
+  };
+
+  const handleBackendChange = async (value: string) => {
+    const type = value as BackendType;
+    if (type === 'webdav' && !webdavConfig) {
+      openWebdavModal();
+      return;
+    }
+    await setBackendType(type);
+  };
+
+  const openWebdavModal = () => {
+    setWebdavUrl(webdavConfig?.url || '');
+    setWebdavUsername(webdavConfig?.username || '');
+    setWebdavPassword(webdavConfig?.password || '');
+    setWebdavTestResult(null);
+    setWebdavModalVisible(true);
+  };
+
+  const testWebdavConnection = async () => {
+    setWebdavTesting(true);
+    setWebdavTestResult(null);
+    try {
+      // Test the form values without touching the active backend
+      webDavService.setConfig({ url: webdavUrl.trim(), username: webdavUsername.trim(), password: webdavPassword });
+      setWebdavTestResult(await webDavService.testConnection());
+    } finally {
+      webDavService.setConfig(webdavConfig);
+      setWebdavTesting(false);
+    }
+  };
+
+  const saveWebdavConfig = async () => {
+    if (!webdavUrl.trim()) return;
+    await setWebDavConfig({ url: webdavUrl.trim(), username: webdavUsername.trim(), password: webdavPassword });
+    await setBackendType('webdav');
+    setWebdavModalVisible(false);
+    await syncNow();
+  };
+
+  const openEncryptionModal = (mode: 'set' | 'unlock') => {
+    setPassphrase('');
+    setPassphraseConfirm('');
+    setEncryptionError(null);
+    setEncryptionModalMode(mode);
+  };
+
+  const savePassphrase = async () => {
+    if (encryptionModalMode === 'set' && passphrase !== passphraseConfirm) {
+      setEncryptionError('Passphrases do not match');
+      return;
+    }
+
+    setEncryptionLoading(true);
+    setEncryptionError(null);
+    try {
+      if (encryptionModalMode === 'set') {
+        await setEncryptionPassphrase(passphrase);
+      } else {
+        await unlockEncryption(passphrase);
+        await syncNow();
+      }
+      setEncryptionModalMode(null);
+    } catch (error) {
+      console.error('Failed to update encryption:', error);
+      setEncryptionError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setEncryptionLoading(false);
+    }
+  };
+
+  const handleDisableEncryption = async () => {
+    setEncryptionLoading(true);
+    try {
+      await disableEncryption();
+    } catch (error) {
+      console.error('Failed to turn off encryption:', error);
+    } finally {
+      setEncryptionLoading(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setExportLoading(true);
+    setArchiveError(null);
+    try {
+      // Write out any debounced edits so the export is complete
+      await saveEntriesToStorage();
+      await archiveService.shareExport();
+    } catch (error) {
+      console.error('Failed to export data:', error);
+      setArchiveError(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setExportLoading(false);
+    }
+  };
+
+  const handlePickImport = async () => {
+    setArchiveError(null);
+    try {
+      const archive = await archiveService.pickArchive();
+      if (!archive) return;
+
+      await saveEntriesToStorage();
+      setImportPreview(await archiveService.previewImport(archive));
+      setImportArchive(archive);
+      setImportMode('merge');
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      setArchiveError(error instanceof Error ? error.message : 'Import failed');
+    }
+  };
+
+  const closeImportModal = () => {
+    setImportArchive(null);
+    setImportPreview(null);
+  };
+
+  const handleImport = async () => {
+    if (!importArchive) return;
+
+    setImportLoading(true);
+    try {
+      await archiveService.importArchive(importArchive, importMode);
+
+      // Reload in-memory stores from the imported data
+      resetEntriesStore();
+      await loadSettings();
+      await refreshMonths();
+      closeImportModal();
+    } catch (error) {
+      console.error('Failed to import data:', error);
+      setArchiveError(error instanceof Error ? error.message : 'Import failed');
+      closeImportModal();
+    } finally {
+      setImportLoading(false);
+    }
+  };
+
   const handleCleanSlate = async () => {
     if (cleanSlateConfirmText !== 'DELETE') return;
 
@@ -361,6 +688,8 @@ export default function SettingsScreen() {
         // Reset in-memory stores
         resetSettingsStore();
         resetEntriesStore();
+        resetSyncStore();
+        useStopwatchStore.getState().resetStore();
 
         // Close modal and reset state
         setCleanSlateModalVisible(false);
@@ -375,11 +704,98 @@ export default function SettingsScreen() {
     }
   };
 
+  const handlePurge = async () => {
+    if (!purgeRequest) return;
+    const { target } = purgeRequest;
+
+    setPurgeLoading(true);
+    try {
+      // Deleting records the purge in settings, so syncing also erases the remote copies
+      if (target.sectionId && target.taskId) {
+        deleteTask(target.memberId, target.sectionId, target.taskId);
+      } else if (target.sectionId) {
+        deleteSection(target.memberId, target.sectionId);
+      } else {
+        deleteMember(target.memberId);
+      }
+      await purgeHistory([target]);
+      setPurgeRequest(null);
+    } catch (error) {
+      console.error('Failed to purge history:', error);
+    } finally {
+      setPurgeLoading(false);
+    }
+  };
+
+  // Scan every stored month against the latest members. An unknown member may have been added
+  // on another device, so while settings can't be read from the backup their entries stay put.
+  const runIntegrityCheck = async () => {
+    await saveEntriesToStorage();
+    await loadSettings();
+    const settingsSyncFailed = useAuthStore.getState().sessionExpired || !!useSyncStore.getState().syncError;
+    setMembersUnconfirmed(syncEnabled && settingsSyncFailed);
+    const { months } = await storageService.exportAllData();
+    setIntegrityMonths(months);
+    setIntegrityReport(checkIntegrity(useSettingsStore.getState().members, months));
+  };
+
+  const handleIntegrityAction = async (action: 'check' | 'prune' | 'reattach') => {
+    setIntegrityLoading(action);
+    setIntegrityError(null);
+    try {
+      if (action === 'prune' && integrityReport) {
+        // Orphans are purged like deleted items, so sync erases the remote copies too
+        const targets = getOrphanTargets(getPrunableIssues(integrityReport.issues));
+        if (targets.length > 0) {
+          recordPurgedHistory(targets);
+          await purgeHistory(targets);
+        }
+        if (integrityReport.issues.some((issue) => issue.kind === 'typeMismatch')) {
+          await repairTypeMismatches(useSettingsStore.getState().members);
+        }
+      } else if (action === 'reattach' && integrityReport) {
+        reattachOrphans(integrityMonths, integrityReport.issues);
+      }
+      await runIntegrityCheck();
+    } catch (error) {
+      console.error('Failed to check data integrity:', error);
+      setIntegrityError(error instanceof Error ? error.message : 'Integrity check failed');
+    } finally {
+      setIntegrityLoading(null);
+    }
+  };
+
+  const getPrunableIssues = (issues: IntegrityIssue[]) =>
+    membersUnconfirmed ? issues.filter((issue) => issue.kind !== 'unknownMember') : issues;
+
+  const describeIntegrityIssue = (issue: IntegrityIssue) => {
+    const member = members.find((m) => m.id === issue.memberId);
+    const section = member?.sections.find((s) => s.id === issue.sectionId);
+    const task = section?.tasks.find((t) => t.id === issue.taskId);
+    const months = issue.months.length > 1
+      ? `${issue.months[0]} – ${issue.months[issue.months.length - 1]}`
+      : issue.months[0];
+
+    switch (issue.kind) {
+      case 'unknownMember':
+        return `Unknown member: ${issue.count} entr${issue.count !== 1 ? 'ies' : 'y'} (${months})`;
+      case 'unknownSection':
+        return `${member?.name}: ${issue.count} entr${issue.count !== 1 ? 'ies' : 'y'} for a deleted section (${months})`;
+      case 'unknownTask':
+        return `${member?.name} › ${section?.name}: ${issue.count} answer${issue.count !== 1 ? 's' : ''} for a deleted task (${months})`;
+      case 'typeMismatch':
+        return `${member?.name} › ${section?.name} › ${task?.name}: ${issue.count} value${issue.count !== 1 ? 's' : ''} not matching the task type (${months})`;
+    }
+  };
+
   const getTaskTypeIcon = (type: TaskType) => {
     switch (type) {
       case 'checkbox': return 'checkbox-marked-outline';
       case 'text': return 'text';
       case 'numeric': return 'numeric';
+      case 'scale': return 'star-half-full';
+      case 'duration': return 'timer-outline';
+      case 'choice': return 'format-list-checks';
     }
   };
 
@@ -389,9 +805,10 @@ export default function SettingsScreen() {
 
   const renderMember = (member: FamilyMember) => {
     const isExpanded = expandedMemberId === member.id;
+    const isArchived = !!member.archivedAt;
 
     return (
-      <Card key={member.id} style={[styles.memberCard, { borderLeftColor: member.color, borderLeftWidth: 4 }]}>
+      <Card key={member.id} style={[styles.memberCard, { borderLeftColor: member.color, borderLeftWidth: 4 }, isArchived && styles.archivedItem]}>
         <Pressable onPress={() => setExpandedMemberId(isExpanded ? null : member.id)}>
           <View style={styles.memberHeader}>
             <View style={styles.memberInfo}>
@@ -403,13 +820,28 @@ export default function SettingsScreen() {
               <View style={styles.memberText}>
                 <Text variant="titleMedium">{member.name}</Text>
                 <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                  {isArchived ? 'Archived · ' : ''}
                   {member.sections.length} section{member.sections.length !== 1 ? 's' : ''}
                 </Text>
               </View>
             </View>
             <View style={styles.memberActions}>
-              <IconButton icon="pencil" size={20} onPress={() => openMemberModal(member.id)} />
-              <IconButton icon="delete-outline" size={20} onPress={() => deleteMember(member.id)} />
+              {isArchived ? (
+                <>
+                  <IconButton icon="archive-arrow-up-outline" size={20} onPress={() => setMemberArchived(member.id, false)} />
+                  <IconButton
+                    icon="delete-forever-outline"
+                    size={20}
+                    iconColor={theme.colors.error}
+                    onPress={() => setPurgeRequest({ target: { memberId: member.id }, name: member.name })}
+                  />
+                </>
+              ) : (
+                <>
+                  <IconButton icon="pencil" size={20} onPress={() => openMemberModal(member.id)} />
+                  <IconButton icon="archive-outline" size={20} onPress={() => setMemberArchived(member.id, true)} />
+                </>
+              )}
               <MaterialCommunityIcons
                 name={isExpanded ? 'chevron-up' : 'chevron-down'}
                 size={24}
@@ -448,21 +880,36 @@ export default function SettingsScreen() {
 
   const renderSection = (member: FamilyMember, section: Section) => {
     const isExpanded = expandedSectionId === section.id;
+    const isArchived = !!section.archivedAt;
 
     return (
-      <Surface key={section.id} style={styles.sectionCard} elevation={1}>
+      <Surface key={section.id} style={[styles.sectionCard, isArchived && styles.archivedItem]} elevation={1}>
         <Pressable onPress={() => setExpandedSectionId(isExpanded ? null : section.id)}>
           <View style={styles.sectionRow}>
             <View style={styles.sectionInfo}>
               <MaterialCommunityIcons name="folder-outline" size={20} color={member.color} />
               <Text variant="titleSmall" style={styles.sectionName}>{section.name}</Text>
               <Chip compact style={styles.taskCountChip} textStyle={styles.chipText}>
-                {section.tasks.length} task{section.tasks.length !== 1 ? 's' : ''}
+                {isArchived ? 'Archived' : `${section.tasks.length} task${section.tasks.length !== 1 ? 's' : ''}`}
               </Chip>
             </View>
             <View style={styles.sectionActions}>
-              <IconButton icon="pencil" size={18} onPress={() => openSectionModal(member.id, section.id)} />
-              <IconButton icon="delete-outline" size={18} onPress={() => deleteSection(member.id, section.id)} />
+              {isArchived ? (
+                <>
+                  <IconButton icon="archive-arrow-up-outline" size={18} onPress={() => setSectionArchived(member.id, section.id, false)} />
+                  <IconButton
+                    icon="delete-forever-outline"
+                    size={18}
+                    iconColor={theme.colors.error}
+                    onPress={() => setPurgeRequest({ target: { memberId: member.id, sectionId: section.id }, name: section.name })}
+                  />
+                </>
+              ) : (
+                <>
+                  <IconButton icon="pencil" size={18} onPress={() => openSectionModal(member.id, section.id)} />
+                  <IconButton icon="archive-outline" size={18} onPress={() => setSectionArchived(member.id, section.id, true)} />
+                </>
+              )}
               <MaterialCommunityIcons
                 name={isExpanded ? 'chevron-up' : 'chevron-down'}
                 size={20}
@@ -488,11 +935,22 @@ export default function SettingsScreen() {
               </View>
             ) : (
               section.tasks.map((task) => (
-                <View key={task.id} style={styles.taskRow}>
+                <View key={task.id} style={[styles.taskRow, !!task.archivedAt && styles.archivedItem]}>
                   <View style={styles.taskInfo}>
                     <MaterialCommunityIcons name={getTaskTypeIcon(task.type)} size={18} color={theme.colors.onSurfaceVariant} />
                     <Text variant="bodyMedium" style={styles.taskName}>{task.name}</Text>
+                    {!!task.archivedAt && <Chip compact style={styles.unitChip} textStyle={styles.chipText}>Archived</Chip>}
                     {task.unit && <Chip compact style={styles.unitChip} textStyle={styles.chipText}>{task.unit}</Chip>}
+                    {task.type === 'scale' && (
+                      <Chip compact style={styles.unitChip} textStyle={styles.chipText}>
+                        {getTaskScale(task).min}–{getTaskScale(task).max}
+                      </Chip>
+                    )}
+                    {task.type === 'choice' && (
+                      <Chip compact style={styles.unitChip} textStyle={styles.chipText}>
+                        {getTaskChoice(task).options.length} option{getTaskChoice(task).options.length !== 1 ? 's' : ''}
+                      </Chip>
+                    )}
                     {task.schedule?.enabled && (
                       <MaterialCommunityIcons name="calendar-week" size={16} color={theme.colors.primary} />
                     )}
@@ -501,8 +959,22 @@ export default function SettingsScreen() {
                     )}
                   </View>
                   <View style={styles.taskActions}>
-                    <IconButton icon="pencil" size={16} onPress={() => openTaskModal(member.id, section.id, task.id)} />
-                    <IconButton icon="delete-outline" size={16} onPress={() => deleteTask(member.id, section.id, task.id)} />
+                    {task.archivedAt ? (
+                      <>
+                        <IconButton icon="archive-arrow-up-outline" size={16} onPress={() => setTaskArchived(member.id, section.id, task.id, false)} />
+                        <IconButton
+                          icon="delete-forever-outline"
+                          size={16}
+                          iconColor={theme.colors.error}
+                          onPress={() => setPurgeRequest({ target: { memberId: member.id, sectionId: section.id, taskId: task.id }, name: task.name })}
+                        />
+                      </>
+                    ) : (
+                      <>
+                        <IconButton icon="pencil" size={16} onPress={() => openTaskModal(member.id, section.id, task.id)} />
+                        <IconButton icon="archive-outline" size={16} onPress={() => setTaskArchived(member.id, section.id, task.id, true)} />
+                      </>
+                    )}
                   </View>
                 </View>
               ))
@@ -533,12 +1005,157 @@ export default function SettingsScreen() {
               <View>
                 <Text variant="titleSmall">{isGuest ? 'Guest Mode' : userEmail}</Text>
                 <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
-                  {isGuest ? 'Data stored locally only' : 'Synced with Google Drive'}
+                  {!syncEnabled
+                    ? 'Data stored locally only'
+                    : sessionExpired && backendType === 'googleDrive'
+                      ? 'Session expired, please sign in again'
+                      : pendingUploads > 0
+                        ? `${pendingUploads} change${pendingUploads !== 1 ? 's' : ''} waiting to sync`
+                        : backendType === 'webdav'
+                          ? 'Backed up to WebDAV server'
+                          : 'Synced with Google Drive'}
                 </Text>
               </View>
             </View>
             <Button mode="outlined" compact onPress={handleLogout}>Sign Out</Button>
           </View>
+
+          {syncEnabled && (
+            <View style={styles.syncContent}>
+              <Divider style={styles.syncDivider} />
+              <View style={styles.syncRow}>
+                <View style={styles.syncInfo}>
+                  <View style={styles.syncDetail}>
+                    <MaterialCommunityIcons name="clock-check-outline" size={16} color={theme.colors.onSurfaceVariant} />
+                    <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                      Last sync: {lastSyncTime ? format(parseISO(lastSyncTime), 'MMM d, h:mm a') : 'Never'}
+                    </Text>
+                  </View>
+                  {syncError && (
+                    <View style={styles.syncDetail}>
+                      <MaterialCommunityIcons name="alert-circle-outline" size={16} color={theme.colors.error} />
+                      <Text variant="bodySmall" style={{ color: theme.colors.error, flex: 1 }}>
+                        {syncError}
+                      </Text>
+                    </View>
+                  )}
+                </View>
+                {sessionExpired && backendType === 'googleDrive' ? (
+                  <Button
+                    mode="contained"
+                    compact
+                    icon="google"
+                    onPress={handleSignInAgain}
+                    loading={reauthLoading}
+                    disabled={reauthLoading}
+                  >
+                    Sign in again
+                  </Button>
+                ) : (
+                  <Button
+                    mode="contained-tonal"
+                    compact
+                    icon="cloud-sync-outline"
+                    onPress={syncNow}
+                    loading={isSyncing}
+                    disabled={syncQueued}
+                  >
+                    {syncQueued ? 'Sync queued' : 'Sync now'}
+                  </Button>
+                )}
+              </View>
+            </View>
+          )}
+        </Card>
+
+        {/* Backup Destination Card */}
+        <Card style={styles.backupCard}>
+          <View style={styles.backupContent}>
+            <View style={styles.backupHeader}>
+              <MaterialCommunityIcons name="cloud-upload-outline" size={24} color={theme.colors.primary} />
+              <View style={styles.backupInfo}>
+                <Text variant="titleSmall">Backup Destination</Text>
+                <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                  Where your journal is backed up
+                </Text>
+              </View>
+            </View>
+            <SegmentedButtons
+              value={backendType}
+              onValueChange={handleBackendChange}
+              buttons={[
+                { value: 'googleDrive', label: 'Google Drive', icon: 'google-drive' },
+                { value: 'webdav', label: 'WebDAV', icon: 'server-network' },
+              ]}
+              style={styles.backupSelector}
+            />
+            {backendType === 'webdav' && webdavConfig && (
+              <Pressable onPress={openWebdavModal} style={styles.backupServer}>
+                <MaterialCommunityIcons name="server" size={20} color={theme.colors.primary} />
+                <Text variant="bodyMedium" style={{ color: theme.colors.primary, flex: 1 }} numberOfLines={1}>
+                  {webdavConfig.url}
+                </Text>
+                <MaterialCommunityIcons name="chevron-right" size={20} color={theme.colors.onSurfaceVariant} />
+              </Pressable>
+            )}
+            {backendType === 'googleDrive' && isGuest && (
+              <Text variant="bodySmall" style={[styles.backupHint, { color: theme.colors.onSurfaceVariant }]}>
+                Sign in with Google to back up to Google Drive
+              </Text>
+            )}
+          </View>
+
+          {syncEnabled && (
+            <View style={styles.syncContent}>
+              <Divider style={styles.syncDivider} />
+              <View style={styles.syncRow}>
+                <MaterialCommunityIcons
+                  name={encryptionEnabled ? 'lock-outline' : 'lock-open-variant-outline'}
+                  size={20}
+                  color={encryptionEnabled ? theme.colors.primary : theme.colors.onSurfaceVariant}
+                />
+                <View style={styles.syncInfo}>
+                  <Text variant="bodyMedium">End-to-end encryption</Text>
+                  <Text
+                    variant="bodySmall"
+                    style={{ color: passphraseRequired ? theme.colors.error : theme.colors.onSurfaceVariant }}
+                  >
+                    {passphraseRequired
+                      ? 'Passphrase required: the backup is encrypted with a passphrase this device doesn\'t have. Syncing is paused until you enter it.'
+                      : encryptionEnabled
+                        ? 'Backup is encrypted with the family passphrase'
+                        : 'Backup is stored unencrypted'}
+                  </Text>
+                </View>
+              </View>
+              <View style={styles.encryptionActions}>
+                {encryptionEnabled ? (
+                  <>
+                    {passphraseRequired && (
+                      <Button compact onPress={() => openEncryptionModal('unlock')} disabled={encryptionLoading}>
+                        Enter passphrase
+                      </Button>
+                    )}
+                    <Button compact onPress={handleDisableEncryption} disabled={encryptionLoading}>
+                      Turn off
+                    </Button>
+                    <Button mode="contained-tonal" compact onPress={() => openEncryptionModal('set')} disabled={encryptionLoading}>
+                      Change passphrase
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button compact onPress={() => openEncryptionModal('unlock')} disabled={encryptionLoading}>
+                      Enter passphrase
+                    </Button>
+                    <Button mode="contained-tonal" compact onPress={() => openEncryptionModal('set')} disabled={encryptionLoading}>
+                      Turn on
+                    </Button>
+                  </>
+                )}
+              </View>
+            </View>
+          )}
         </Card>
 
         {/* Daily Reminder Card */}
@@ -576,6 +1193,133 @@ export default function SettingsScreen() {
           />
         )}
 
+        {/* Export / Import Card */}
+        <Card style={styles.archiveCard}>
+          <View style={styles.backupContent}>
+            <View style={styles.backupHeader}>
+              <MaterialCommunityIcons name="archive-arrow-down-outline" size={24} color={theme.colors.primary} />
+              <View style={styles.backupInfo}>
+                <Text variant="titleSmall">Export & Import</Text>
+                <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                  Save all members and entries to a file, or restore from one
+                </Text>
+              </View>
+            </View>
+            {archiveError && (
+              <View style={[styles.syncDetail, styles.backupHint]}>
+                <MaterialCommunityIcons name="alert-circle-outline" size={16} color={theme.colors.error} />
+                <Text variant="bodySmall" style={{ color: theme.colors.error, flex: 1 }}>
+                  {archiveError}
+                </Text>
+              </View>
+            )}
+            <View style={styles.encryptionActions}>
+              <Button compact icon="file-import-outline" onPress={handlePickImport} disabled={exportLoading}>
+                Import
+              </Button>
+              <Button
+                mode="contained-tonal"
+                compact
+                icon="export-variant"
+                onPress={handleExport}
+                loading={exportLoading}
+                disabled={exportLoading}
+              >
+                Export
+              </Button>
+            </View>
+          </View>
+        </Card>
+
+        {/* Data Integrity Card */}
+        <Card style={styles.archiveCard}>
+          <View style={styles.backupContent}>
+            <View style={styles.backupHeader}>
+              <MaterialCommunityIcons name="database-check-outline" size={24} color={theme.colors.primary} />
+              <View style={styles.backupInfo}>
+                <Text variant="titleSmall">Data Integrity</Text>
+                <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                  Find entries left behind by deleted members, sections or tasks
+                </Text>
+              </View>
+            </View>
+            {integrityReport && (
+              <View style={[styles.importSummary, styles.backupHint]}>
+                <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                  Checked {integrityReport.entryCount} entr{integrityReport.entryCount !== 1 ? 'ies' : 'y'} in{' '}
+                  {integrityReport.monthCount} month{integrityReport.monthCount !== 1 ? 's' : ''}
+                  {integrityReport.issues.length === 0 ? ' · no problems found' : ''}
+                </Text>
+                {integrityReport.issues.map((issue) => (
+                  <View key={`${issue.kind}-${issue.memberId}-${issue.sectionId}-${issue.taskId}`} style={styles.syncDetail}>
+                    <MaterialCommunityIcons
+                      name={issue.kind === 'typeMismatch' ? 'swap-horizontal' : 'link-variant-off'}
+                      size={16}
+                      color={theme.colors.error}
+                    />
+                    <Text variant="bodySmall" style={{ flex: 1 }}>{describeIntegrityIssue(issue)}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+            {integrityError && (
+              <View style={[styles.syncDetail, styles.backupHint]}>
+                <MaterialCommunityIcons name="alert-circle-outline" size={16} color={theme.colors.error} />
+                <Text variant="bodySmall" style={{ color: theme.colors.error, flex: 1 }}>
+                  {integrityError}
+                </Text>
+              </View>
+            )}
+            <View style={styles.encryptionActions}>
+              {integrityReport && getOrphanTargets(integrityReport.issues).length > 0 && (
+                <Button
+                  compact
+                  icon="link-variant"
+                  onPress={() => handleIntegrityAction('reattach')}
+                  loading={integrityLoading === 'reattach'}
+                  disabled={integrityLoading !== null}
+                >
+                  Reattach
+                </Button>
+              )}
+              {integrityReport && getPrunableIssues(integrityReport.issues).length > 0 && (
+                <Button
+                  compact
+                  icon="broom"
+                  textColor={theme.colors.error}
+                  onPress={() => handleIntegrityAction('prune')}
+                  loading={integrityLoading === 'prune'}
+                  disabled={integrityLoading !== null}
+                >
+                  Prune
+                </Button>
+              )}
+              <Button
+                mode="contained-tonal"
+                compact
+                icon="magnify-scan"
+                onPress={() => handleIntegrityAction('check')}
+                loading={integrityLoading === 'check'}
+                disabled={integrityLoading !== null}
+              >
+                Check
+              </Button>
+            </View>
+            {integrityReport && integrityReport.issues.length > 0 && (
+              <Text variant="bodySmall" style={[styles.backupHint, { color: theme.colors.onSurfaceVariant }]}>
+                Reattach brings orphaned history back under archived "Recovered" items you can rename and
+                restore. Prune deletes it for good and converts or removes mismatched values.
+              </Text>
+            )}
+            {integrityReport && membersUnconfirmed && integrityReport.issues.some((issue) => issue.kind === 'unknownMember') && (
+              <Text variant="bodySmall" style={[styles.backupHint, { color: theme.colors.onSurfaceVariant }]}>
+                Settings couldn't be synced, so entries of unknown members can't be pruned: they may belong to
+                a member added on another device. Sync and check again.
+              </Text>
+            )}
+          </View>
+        </Card>
+
         {/* Clean Slate Card */}
         <Card style={[styles.cleanSlateCard, { borderColor: theme.colors.error }]}>
           <View style={styles.cleanSlateContent}>
@@ -620,7 +1364,10 @@ export default function SettingsScreen() {
               </Card.Content>
             </Card>
           ) : (
-            members.map(renderMember)
+            // Archived members are listed after the active ones
+            [...members]
+              .sort((a, b) => Number(!!a.archivedAt) - Number(!!b.archivedAt))
+              .map(renderMember)
           )}
         </View>
       </KeyboardAwareScrollView>
@@ -674,10 +1421,100 @@ export default function SettingsScreen() {
               { value: 'checkbox', label: 'Yes/No', icon: 'checkbox-marked-outline' },
               { value: 'text', label: 'Text', icon: 'text' },
               { value: 'numeric', label: 'Number', icon: 'numeric' },
+              { value: 'scale', label: 'Scale', icon: 'star-half-full' },
+              { value: 'duration', label: 'Timer', icon: 'timer-outline' },
+              { value: 'choice', label: 'Choice', icon: 'format-list-checks' },
             ]} style={styles.segmentedButtons} />
+            {taskType === 'choice' && (
+              <View>
+                <View style={styles.scaleLabelsHeader}>
+                  <Text variant="labelLarge">Options</Text>
+                  <View style={styles.choiceMultiple}>
+                    <Text variant="bodySmall">Pick several</Text>
+                    <Switch value={choiceMultiple} onValueChange={setChoiceMultiple} />
+                  </View>
+                </View>
+                {choiceOptions.map((option, index) => (
+                  <View key={option.id} style={styles.choiceOptionRow}>
+                    <TextInput
+                      label={`Option ${index + 1}`}
+                      value={option.label}
+                      onChangeText={(text) => updateChoiceOption(option.id, text)}
+                      style={[styles.input, styles.scaleRangeInput]}
+                      mode="outlined"
+                      dense
+                    />
+                    <IconButton
+                      icon="close"
+                      size={20}
+                      onPress={() => setChoiceOptions((options) => options.filter((o) => o.id !== option.id))}
+                      accessibilityLabel={`Remove option ${index + 1}`}
+                    />
+                  </View>
+                ))}
+                <Button
+                  icon="plus"
+                  onPress={() => setChoiceOptions((options) => [...options, { id: Crypto.randomUUID(), label: '' }])}
+                  style={styles.input}
+                >
+                  Add option
+                </Button>
+                {!getEditedChoice() && (
+                  <View style={[styles.syncDetail, styles.input]}>
+                    <MaterialCommunityIcons name="alert-circle-outline" size={16} color={theme.colors.error} />
+                    <Text variant="bodySmall" style={{ color: theme.colors.error, flex: 1 }}>
+                      Add at least one option
+                    </Text>
+                  </View>
+                )}
+              </View>
+            )}
+            {taskType === 'duration' && (
+              <Text variant="bodySmall" style={styles.typeHint}>
+                Time it with the stopwatch on the journal card, or type the time (h:mm)
+              </Text>
+            )}
             {taskType === 'numeric' && (
               <TextInput label="Unit (optional)" value={taskUnit} onChangeText={setTaskUnit} placeholder="e.g., minutes, glasses, pages" style={styles.input} mode="outlined" />
             )}
+            {taskType === 'scale' && (() => {
+              const scale = getEditedScale();
+              return (
+                <View>
+                  <View style={styles.scaleRange}>
+                    <TextInput label="Lowest" value={scaleMin} onChangeText={setScaleMin} keyboardType="number-pad" style={[styles.input, styles.scaleRangeInput]} mode="outlined" />
+                    <TextInput label="Highest" value={scaleMax} onChangeText={setScaleMax} keyboardType="number-pad" style={[styles.input, styles.scaleRangeInput]} mode="outlined" />
+                  </View>
+                  {scale ? (
+                    <>
+                      <View style={styles.scaleLabelsHeader}>
+                        <Text variant="labelLarge">Step labels (optional)</Text>
+                        <Button compact icon="emoticon-happy-outline" onPress={applyMoodPreset}>Mood emoji</Button>
+                      </View>
+                      {getScaleSteps(scale).map((step) => (
+                        <TextInput
+                          key={step}
+                          label={`Label for ${step}`}
+                          value={scaleLabels[step] || ''}
+                          onChangeText={(text) => setScaleLabels((labels) => ({ ...labels, [step]: text }))}
+                          placeholder="e.g., 🙂 or Easy"
+                          style={styles.input}
+                          mode="outlined"
+                          dense
+                        />
+                      ))}
+                    </>
+                  ) : (
+                    <View style={[styles.syncDetail, styles.input]}>
+                      <MaterialCommunityIcons name="alert-circle-outline" size={16} color={theme.colors.error} />
+                      <Text variant="bodySmall" style={{ color: theme.colors.error, flex: 1 }}>
+                        Use whole numbers from {SCALE_LOWEST} to {SCALE_HIGHEST}, with the highest above the lowest
+                      </Text>
+                    </View>
+                  )}
+                </View>
+              );
+            })()}
 
             {/* Schedule Section */}
             <Divider style={styles.scheduleDivider} />
@@ -767,6 +1604,244 @@ export default function SettingsScreen() {
         />
       )}
 
+      {/* WebDAV Server Modal */}
+      <Portal>
+        <Modal
+          visible={webdavModalVisible}
+          onDismiss={() => setWebdavModalVisible(false)}
+          contentContainerStyle={[styles.modal, { backgroundColor: theme.colors.surface }]}
+        >
+          <KeyboardAvoidingView
+            behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+            keyboardVerticalOffset={Platform.OS === 'ios' ? 60 : 0}
+          >
+          <Text variant="headlineSmall" style={styles.modalTitle}>WebDAV Server</Text>
+          <TextInput
+            label="Server URL"
+            value={webdavUrl}
+            onChangeText={setWebdavUrl}
+            placeholder="https://cloud.example.com/remote.php/dav/files/me"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            style={styles.input}
+            mode="outlined"
+          />
+          <TextInput
+            label="Username"
+            value={webdavUsername}
+            onChangeText={setWebdavUsername}
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={styles.input}
+            mode="outlined"
+          />
+          <TextInput
+            label="Password"
+            value={webdavPassword}
+            onChangeText={setWebdavPassword}
+            secureTextEntry
+            style={styles.input}
+            mode="outlined"
+          />
+          {webdavTestResult && (
+            <View style={styles.syncDetail}>
+              <MaterialCommunityIcons
+                name={webdavTestResult.success ? 'check-circle-outline' : 'alert-circle-outline'}
+                size={16}
+                color={webdavTestResult.success ? theme.colors.primary : theme.colors.error}
+              />
+              <Text
+                variant="bodySmall"
+                style={{ color: webdavTestResult.success ? theme.colors.primary : theme.colors.error, flex: 1 }}
+              >
+                {webdavTestResult.success ? 'Connected successfully' : webdavTestResult.error}
+              </Text>
+            </View>
+          )}
+          <View style={styles.modalActions}>
+            <Button
+              onPress={testWebdavConnection}
+              loading={webdavTesting}
+              disabled={!webdavUrl.trim() || webdavTesting}
+            >
+              Test
+            </Button>
+            <Button onPress={() => setWebdavModalVisible(false)}>Cancel</Button>
+            <Button mode="contained" onPress={saveWebdavConfig} disabled={!webdavUrl.trim()}>Save</Button>
+          </View>
+          </KeyboardAvoidingView>
+        </Modal>
+      </Portal>
+
+      {/* Encryption Passphrase Modal */}
+      <Portal>
+        <Modal
+          visible={encryptionModalMode !== null}
+          onDismiss={() => {
+            if (!encryptionLoading) setEncryptionModalMode(null);
+          }}
+          contentContainerStyle={[styles.modal, { backgroundColor: theme.colors.surface }]}
+        >
+          <KeyboardAvoidingView
+            behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+            keyboardVerticalOffset={Platform.OS === 'ios' ? 60 : 0}
+          >
+          <Text variant="headlineSmall" style={styles.modalTitle}>
+            {encryptionModalMode === 'unlock'
+              ? 'Enter Family Passphrase'
+              : encryptionEnabled
+                ? 'Change Passphrase'
+                : 'Encrypt Backup'}
+          </Text>
+          <Text variant="bodyMedium" style={[styles.encryptionHint, { color: theme.colors.onSurfaceVariant }]}>
+            {encryptionModalMode === 'unlock'
+              ? 'Use the passphrase set on another family device to read the encrypted backup.'
+              : 'Every device will need this passphrase to read the backup. It cannot be recovered if forgotten.'}
+          </Text>
+          <TextInput
+            label="Passphrase"
+            value={passphrase}
+            onChangeText={setPassphrase}
+            secureTextEntry
+            autoCapitalize="none"
+            style={styles.input}
+            mode="outlined"
+            disabled={encryptionLoading}
+          />
+          {encryptionModalMode === 'set' && (
+            <TextInput
+              label="Confirm passphrase"
+              value={passphraseConfirm}
+              onChangeText={setPassphraseConfirm}
+              secureTextEntry
+              autoCapitalize="none"
+              style={styles.input}
+              mode="outlined"
+              disabled={encryptionLoading}
+            />
+          )}
+          {encryptionError && (
+            <View style={styles.syncDetail}>
+              <MaterialCommunityIcons name="alert-circle-outline" size={16} color={theme.colors.error} />
+              <Text variant="bodySmall" style={{ color: theme.colors.error, flex: 1 }}>
+                {encryptionError}
+              </Text>
+            </View>
+          )}
+          <View style={styles.modalActions}>
+            <Button onPress={() => setEncryptionModalMode(null)} disabled={encryptionLoading}>Cancel</Button>
+            <Button
+              mode="contained"
+              onPress={savePassphrase}
+              loading={encryptionLoading}
+              disabled={!passphrase || encryptionLoading}
+            >
+              {encryptionModalMode === 'unlock' ? 'Unlock' : 'Save'}
+            </Button>
+          </View>
+          </KeyboardAvoidingView>
+        </Modal>
+      </Portal>
+
+      {/* Import Preview Modal */}
+      <Portal>
+        <Modal
+          visible={importPreview !== null}
+          onDismiss={() => {
+            if (!importLoading) closeImportModal();
+          }}
+          contentContainerStyle={[styles.modal, { backgroundColor: theme.colors.surface }]}
+        >
+          {importPreview && (
+            <View>
+              <Text variant="headlineSmall" style={styles.modalTitle}>Import Journal</Text>
+              <Text variant="bodySmall" style={[styles.encryptionHint, { color: theme.colors.onSurfaceVariant }]}>
+                {importPreview.exportedAt
+                  ? `Exported ${format(parseISO(importPreview.exportedAt), 'MMM d, yyyy h:mm a')}`
+                  : 'Export date unknown'}
+                {` · ${importPreview.entryCount} entr${importPreview.entryCount !== 1 ? 'ies' : 'y'}`}
+              </Text>
+
+              <SegmentedButtons
+                value={importMode}
+                onValueChange={(value) => setImportMode(value as ImportMode)}
+                buttons={[
+                  { value: 'merge', label: 'Merge', icon: 'call-merge' },
+                  { value: 'replace', label: 'Replace', icon: 'swap-horizontal' },
+                ]}
+                style={styles.importModeSelector}
+              />
+
+              <View style={styles.importSummary}>
+                {getImportSummary(importPreview, importMode).map(({ icon, label, items }) => (
+                  <View key={label} style={styles.syncDetail}>
+                    <MaterialCommunityIcons name={icon} size={16} color={theme.colors.onSurfaceVariant} />
+                    <Text variant="bodySmall" style={{ flex: 1 }}>
+                      {label}: {items.length > 0 ? items.join(', ') : 'none'}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+
+              {importMode === 'replace' && (
+                <Text variant="bodySmall" style={{ color: theme.colors.error }}>
+                  All current members and entries, including the remote backup, will be deleted first.
+                </Text>
+              )}
+
+              <View style={styles.modalActions}>
+                <Button onPress={closeImportModal} disabled={importLoading}>Cancel</Button>
+                <Button
+                  mode="contained"
+                  buttonColor={importMode === 'replace' ? theme.colors.error : undefined}
+                  onPress={handleImport}
+                  loading={importLoading}
+                  disabled={importLoading}
+                >
+                  {importMode === 'replace' ? 'Replace' : 'Merge'}
+                </Button>
+              </View>
+            </View>
+          )}
+        </Modal>
+      </Portal>
+
+      {/* Purge History Modal */}
+      <Portal>
+        <Modal
+          visible={purgeRequest !== null}
+          onDismiss={() => !purgeLoading && setPurgeRequest(null)}
+          contentContainerStyle={[styles.modal, { backgroundColor: theme.colors.surface }]}
+        >
+          <View style={styles.cleanSlateModalHeader}>
+            <MaterialCommunityIcons name="alert-circle" size={48} color={theme.colors.error} />
+            <Text variant="headlineSmall" style={[styles.modalTitle, { color: theme.colors.error }]}>
+              Purge History?
+            </Text>
+          </View>
+          <Text variant="bodyMedium" style={styles.cleanSlateWarning}>
+            This permanently deletes "{purgeRequest?.name}" and every journal entry, note and chart point
+            recorded for it, on this device and in your backup. This can't be undone; restore it instead
+            to keep its history.
+          </Text>
+          <View style={styles.modalActions}>
+            <Button onPress={() => setPurgeRequest(null)} disabled={purgeLoading}>
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              buttonColor={theme.colors.error}
+              onPress={handlePurge}
+              disabled={purgeLoading}
+              loading={purgeLoading}
+            >
+              Purge
+            </Button>
+          </View>
+        </Modal>
+      </Portal>
+
       {/* Clean Slate Modal */}
       <Portal>
         <Modal
@@ -880,6 +1955,72 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 12,
   },
+  syncContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  syncDivider: {
+    marginBottom: 12,
+  },
+  syncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  syncInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  syncDetail: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  backupCard: {
+    marginBottom: 12,
+  },
+  backupContent: {
+    padding: 16,
+  },
+  backupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  backupInfo: {
+    flex: 1,
+  },
+  backupSelector: {
+    marginTop: 12,
+  },
+  backupServer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  backupHint: {
+    marginTop: 8,
+  },
+  encryptionActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 8,
+  },
+  encryptionHint: {
+    marginBottom: 12,
+  },
+  archiveCard: {
+    marginBottom: 12,
+  },
+  importModeSelector: {
+    marginBottom: 12,
+  },
+  importSummary: {
+    gap: 6,
+    marginBottom: 12,
+  },
   reminderCard: {
     marginBottom: 20,
   },
@@ -916,6 +2057,9 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     overflow: 'hidden',
   },
+  archivedItem: {
+    opacity: 0.6,
+  },
   memberHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1097,6 +2241,32 @@ const styles = StyleSheet.create({
   segmentedButtons: {
     marginBottom: 16,
   },
+  typeHint: {
+    opacity: 0.6,
+    marginBottom: 16,
+  },
+  choiceMultiple: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  choiceOptionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  scaleRange: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  scaleRangeInput: {
+    flex: 1,
+  },
+  scaleLabelsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
   modalActions: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
@@ -2,25 +2,51 @@ import { useEffect } from 'react';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { PaperProvider, MD3DarkTheme, MD3LightTheme } from 'react-native-paper';
-import { useColorScheme } from 'react-native';
+import { useColorScheme, AppState } from 'react-native';
 import * as Notifications from 'expo-notifications';
 import { useAuthStore } from '../src/stores/authStore';
 import { useSettingsStore } from '../src/stores/settingsStore';
+import { useEntriesStore } from '../src/stores/entriesStore';
+import { useSyncStore } from '../src/stores/syncStore';
+import { useBackupStore } from '../src/stores/backupStore';
+import { useStopwatchStore } from '../src/stores/stopwatchStore';
 import { configureGoogleSignIn, signInSilently } from '../src/services/googleAuth';
 import { notificationService } from '../src/services/notificationService';
+import { storageService } from '../src/services/storage';
+import { syncQueue } from '../src/services/syncQueue';
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
   const theme = colorScheme === 'dark' ? MD3DarkTheme : MD3LightTheme;
   const { loadStoredAuth, setAuth } = useAuthStore();
 
+  // Keep storage online mode in sync with the Google access token
+  useEffect(() => {
+    const unsubscribe = useAuthStore.subscribe((state, prevState) => {
+      if (state.accessToken !== prevState.accessToken || state.isGuest !== prevState.isGuest) {
+        storageService.setOnlineMode(state.isGuest ? null : state.accessToken);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
   useEffect(() => {
     const initAuth = async () => {
       // Configure Google Sign-In
       configureGoogleSignIn();
 
-      // Load stored auth state
+      // Load stored auth state and the selected backup destination
       await loadStoredAuth();
+      await useBackupStore.getState().loadBackupConfig();
+
+      // A WebDAV backend is usable right away; refresh anything loaded before it was configured
+      if (useBackupStore.getState().backendType === 'webdav') {
+        await useSettingsStore.getState().loadSettings();
+        await useEntriesStore.getState().refreshMonths();
+      }
 
       // Get current state after loading
       const state = useAuthStore.getState();
@@ -33,6 +59,10 @@ export default function RootLayout() {
           setAuth({
             accessToken: result.accessToken || null,
           });
+
+          // Screens may have loaded local data before we came online; refresh from Drive
+          await useSettingsStore.getState().loadSettings();
+          await useEntriesStore.getState().refreshMonths();
         }
       }
     };
@@ -40,6 +70,42 @@ export default function RootLayout() {
     initAuth();
   }, []);
 
+  // Mirror storage sync status and upload queue depth into the sync store
+  useEffect(() => {
+    const { loadSyncState, updateSyncState, setPendingUploads } = useSyncStore.getState();
+    loadSyncState();
+
+    const unsubscribeStatus = storageService.onSyncStatusChange(updateSyncState);
+    const unsubscribeQueue = syncQueue.subscribe(setPendingUploads);
+
+    return () => {
+      unsubscribeStatus();
+      unsubscribeQueue();
+    };
+  }, []);
+
+  // Restore stopwatches that were running or paused when the app was closed
+  useEffect(() => {
+    useStopwatchStore.getState().loadStopwatches();
+  }, []);
+
+  // Retry queued uploads when the app returns to the foreground, and write
+  // debounced edits and uploads out before it is backgrounded
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', async (nextState) => {
+      if (nextState === 'active') {
+        storageService.processPendingUploads();
+      } else if (nextState === 'background') {
+        await useEntriesStore.getState().saveEntriesToStorage();
+        await storageService.flushScheduledUploads();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, []);
+
   // Initialize notification categories and response listener
   useEffect(() => {
     const initNotifications = async () => {
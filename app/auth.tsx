@@ -5,15 +5,18 @@ import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { useAuthStore } from '../src/stores/authStore';
 import { signInWithGoogle } from '../src/services/googleAuth';
+import { storageService } from '../src/services/storage';
 
 export default function AuthScreen() {
   const theme = useTheme();
   const [isLoading, setIsLoading] = useState(false);
+  const [loadingMessage, setLoadingMessage] = useState('Signing in...');
   const [error, setError] = useState<string | null>(null);
   const { setAuth } = useAuthStore();
 
   const handleGoogleSignIn = async () => {
     setIsLoading(true);
+    setLoadingMessage('Signing in...');
     setError(null);
 
     try {
@@ -26,7 +29,17 @@ export default function AuthScreen() {
           accessToken: result.accessToken || null,
           userEmail: result.email || null,
           userName: result.name || null,
+          sessionExpired: false,
         });
+
+        // First login: upload local data and pull down existing Drive data
+        setLoadingMessage('Syncing with Google Drive...');
+        try {
+          await storageService.reconcileWithCloud();
+        } catch (syncError) {
+          // Local data is untouched and later saves still go to Drive
+          console.error('Initial sync failed:', syncError);
+        }
         router.replace('/(tabs)');
       } else {
         setError(result.error || 'Sign in failed');
@@ -46,6 +59,7 @@ export default function AuthScreen() {
       accessToken: null,
       userEmail: null,
       userName: 'Guest',
+      sessionExpired: false,
     });
     router.replace('/(tabs)');
   };
@@ -71,7 +85,7 @@ export default function AuthScreen() {
             <View style={styles.loadingContainer}>
               <ActivityIndicator size="large" color={theme.colors.primary} />
               <Text variant="bodyMedium" style={styles.loadingText}>
-                Signing in...
+                {loadingMessage}
               </Text>
             </View>
           ) : (
@@ -0,0 +1,210 @@
+import { MonthlyEntries } from '../../types';
+import { webDavService } from '../webdav';
+import { EncryptionError } from '../encryption';
+
+// No family passphrase on this device, so files are stored as plain JSON
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(async () => null),
+  setItemAsync: jest.fn(async () => {}),
+  deleteItemAsync: jest.fn(async () => {}),
+}));
+
+const BASE_URL = 'https://dav.example.com/remote.php/dav/files/alex';
+const ROOT_PATH = '/remote.php/dav/files/alex';
+
+interface FakeResponse {
+  ok: boolean;
+  status: number;
+  text: () => Promise<string>;
+}
+
+/**
+ * A minimal in-process WebDAV server: collections, files with ETags, and the
+ * MKCOL / PUT / GET / DELETE / PROPFIND (Depth: 1) requests the backend uses.
+ */
+class FakeWebDavServer {
+  readonly collections = new Set<string>(['/']);
+  readonly files = new Map<string, { body: string; etag: string }>();
+  readonly requests: { method: string; path: string; headers: Record<string, string> }[] = [];
+  private nextEtag = 1;
+  private failures: number[] = []; // statuses to answer the next requests with
+
+  failNext(status: number) {
+    this.failures.push(status);
+  }
+
+  fetch = async (url: string, init: { method: string; headers?: Record<string, string>; body?: string }) => {
+    const path = decodeURIComponent(new URL(url).pathname).slice(ROOT_PATH.length) || '/';
+    this.requests.push({ method: init.method, path, headers: init.headers || {} });
+
+    const failure = this.failures.shift();
+    if (failure) return this.respond(failure);
+
+    switch (init.method) {
+      case 'MKCOL':
+        if (this.collections.has(path)) return this.respond(405);
+        if (!this.collections.has(this.parentOf(path))) return this.respond(409);
+        this.collections.add(path);
+        return this.respond(201);
+      case 'PUT': {
+        if (!this.collections.has(this.parentOf(path))) return this.respond(409);
+        this.files.set(path, { body: init.body || '', etag: `"${this.nextEtag++}"` });
+        return this.respond(201);
+      }
+      case 'GET': {
+        const file = this.files.get(path);
+        return file ? this.respond(200, file.body) : this.respond(404);
+      }
+      case 'DELETE': {
+        const existed = this.files.delete(path) || this.collections.has(path);
+        this.collections.forEach((collection) => {
+          if (collection.startsWith(path)) this.collections.delete(collection);
+        });
+        Array.from(this.files.keys()).forEach((file) => {
+          if (path.endsWith('/') && file.startsWith(path)) this.files.delete(file);
+        });
+        return this.respond(existed ? 204 : 404);
+      }
+      case 'PROPFIND':
+        return this.collections.has(path) ? this.respond(207, this.listXml(path)) : this.respond(404);
+      default:
+        return this.respond(405);
+    }
+  };
+
+  private parentOf(path: string): string {
+    return path.replace(/[^/]+\/?$/, '');
+  }
+
+  private listXml(collection: string): string {
+    const children = Array.from(this.files.entries()).filter(([path]) => this.parentOf(path) === collection);
+    const responses = [
+      `<d:response><d:href>${ROOT_PATH}${collection}</d:href><d:propstat><d:prop/></d:propstat></d:response>`,
+      ...children.map(
+        ([path, file]) =>
+          `<d:response><d:href>${ROOT_PATH}${encodeURI(path)}</d:href>` +
+          `<d:propstat><d:prop><d:getetag>${file.etag}</d:getetag></d:prop></d:propstat></d:response>`
+      ),
+    ];
+    return `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:">${responses.join('')}</d:multistatus>`;
+  }
+
+  private respond(status: number, body: string = ''): FakeResponse {
+    return { ok: status >= 200 && status < 300, status, text: async () => body };
+  }
+}
+
+const month = (name: string, lastModified: string = '2026-03-01T10:00:00.000Z'): MonthlyEntries => ({
+  schemaVersion: 1,
+  month: name,
+  entries: [],
+  lastModified,
+});
+
+describe('WebDavService', () => {
+  let server: FakeWebDavServer;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    server = new FakeWebDavServer();
+    global.fetch = server.fetch as unknown as typeof fetch;
+    webDavService.setConfig({ url: `${BASE_URL}/`, username: 'alex', password: 'secret' });
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+    webDavService.setConfig(null);
+  });
+
+  it('creates the app folders and signs requests with basic auth', async () => {
+    await expect(webDavService.testConnection()).resolves.toEqual({ success: true });
+
+    expect(Array.from(server.collections)).toEqual(
+      expect.arrayContaining(['/OurJournal/', '/OurJournal/entries/', '/OurJournal/attachments/'])
+    );
+    expect(server.requests[0].headers.Authorization).toBe(`Basic ${btoa('alex:secret')}`);
+  });
+
+  it('saves and loads settings and months', async () => {
+    const settings = { schemaVersion: 1, members: [], lastModified: '2026-03-01T10:00:00.000Z' };
+    await webDavService.saveSettings(settings);
+    await webDavService.saveMonthlyEntries(month('2026-03'));
+
+    await expect(webDavService.loadSettings()).resolves.toEqual(settings);
+    await expect(webDavService.loadMonthlyEntries('2026-03')).resolves.toEqual(month('2026-03'));
+  });
+
+  it('loads null only when the file does not exist', async () => {
+    await expect(webDavService.loadSettings()).resolves.toBeNull();
+    await expect(webDavService.loadMonthlyEntries('2026-03')).resolves.toBeNull();
+  });
+
+  it('throws when the server fails instead of reporting the file as missing', async () => {
+    await webDavService.saveMonthlyEntries(month('2026-03'));
+
+    server.failNext(503);
+    await expect(webDavService.loadMonthlyEntries('2026-03')).rejects.toThrow('HTTP 503');
+    server.failNext(401);
+    await expect(webDavService.listMonthlyEntryFiles()).rejects.toThrow('HTTP 401');
+  });
+
+  it('refuses to read an encrypted file without the family passphrase', async () => {
+    await webDavService.saveSettings({ schemaVersion: 1, members: [], lastModified: '2026-03-01T10:00:00.000Z' });
+    const envelope = { encrypted: true, version: 1, salt: 'c2FsdA==', nonce: 'bm9uY2U=', data: 'ZGF0YQ==' };
+    server.files.set('/OurJournal/settings.json', { body: JSON.stringify(envelope), etag: '"x"' });
+
+    await expect(webDavService.loadSettings()).rejects.toThrow(EncryptionError);
+  });
+
+  it('lists month files only', async () => {
+    await expect(webDavService.listMonthlyEntryFiles()).resolves.toEqual([]);
+
+    await webDavService.saveMonthlyEntries(month('2026-02'));
+    await webDavService.saveMonthlyEntries(month('2026-03'));
+    server.files.set('/OurJournal/entries/notes.txt', { body: '', etag: '"x"' });
+
+    await expect(webDavService.listMonthlyEntryFiles()).resolves.toEqual(['2026-02', '2026-03']);
+  });
+
+  it('reports the months whose ETag changed since the cursor', async () => {
+    await webDavService.saveMonthlyEntries(month('2026-02'));
+    await webDavService.saveMonthlyEntries(month('2026-03'));
+
+    // Without a cursor every month has to be checked
+    const first = await webDavService.getChangedMonths(null);
+    expect(first.months).toBeNull();
+
+    const unchanged = await webDavService.getChangedMonths(first.cursor);
+    expect(unchanged.months).toEqual([]);
+
+    await webDavService.saveMonthlyEntries(month('2026-03', '2026-03-02T10:00:00.000Z'));
+    await webDavService.saveMonthlyEntries(month('2026-04'));
+    const changed = await webDavService.getChangedMonths(unchanged.cursor);
+    expect(changed.months).toEqual(['2026-03', '2026-04']);
+
+    await expect(webDavService.getChangedMonths(changed.cursor)).resolves.toMatchObject({ months: [] });
+  });
+
+  it('saves, loads and deletes attachment files', async () => {
+    const file = { mimeType: 'image/jpeg', data: 'aGVsbG8=' };
+    await webDavService.saveAttachment('photo-1', file);
+    await expect(webDavService.loadAttachment('photo-1')).resolves.toEqual(file);
+
+    await webDavService.deleteAttachment('photo-1');
+    await expect(webDavService.loadAttachment('photo-1')).resolves.toBeNull();
+
+    // Deleting again is not an error
+    await expect(webDavService.deleteAttachment('photo-1')).resolves.toBeUndefined();
+  });
+
+  it('deletes the whole app folder', async () => {
+    await webDavService.saveMonthlyEntries(month('2026-03'));
+
+    await expect(webDavService.deleteAll()).resolves.toBe(true);
+    await expect(webDavService.listMonthlyEntryFiles()).resolves.toEqual([]);
+
+    // Folders are created again on the next save
+    await webDavService.saveMonthlyEntries(month('2026-04'));
+    await expect(webDavService.listMonthlyEntryFiles()).resolves.toEqual(['2026-04']);
+  });
+});
@@ -0,0 +1,47 @@
+import { File } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import { format } from 'date-fns';
+import { ExportArchive, ImportMode, ImportPreview } from '../types';
+import { storageService } from './storage';
+import { fileExportService } from './fileExport';
+import { createArchive, parseArchive, buildImportPreview } from '../utils/archiveUtils';
+
+class ArchiveService {
+  // Write every setting and month to a JSON file and open the share sheet for it
+  async shareExport(): Promise<void> {
+    const { settings, months } = await storageService.exportAllData();
+    const attachments = await storageService.exportAttachmentFiles(months);
+    const archive = createArchive(settings, months, attachments);
+
+    await fileExportService.shareTextFile(
+      `our-journal-${format(new Date(), 'yyyy-MM-dd')}.json`,
+      JSON.stringify(archive),
+      { mimeType: 'application/json', UTI: 'public.json', dialogTitle: 'Export journal' }
+    );
+  }
+
+  // Let the user pick an export file; resolves null if they cancel
+  async pickArchive(): Promise<ExportArchive | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/json', 'text/plain', '*/*'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+
+    const content = await new File(result.assets[0].uri).text();
+    return parseArchive(content);
+  }
+
+  async previewImport(archive: ExportArchive): Promise<ImportPreview> {
+    const { settings, months } = await storageService.exportAllData();
+    return buildImportPreview(archive, settings, months);
+  }
+
+  async importArchive(archive: ExportArchive, mode: ImportMode): Promise<void> {
+    await storageService.importAllData(archive.settings, archive.months, archive.attachments || [], mode);
+  }
+}
+
+export const archiveService = new ArchiveService();
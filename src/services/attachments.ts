@@ -0,0 +1,136 @@
+import { Directory, File, Paths } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as Crypto from 'expo-crypto';
+import { Attachment, AttachmentKind } from '../types';
+
+const PHOTO_MAX_SIZE = 1600;
+const THUMBNAIL_SIZE = 256;
+const JPEG_QUALITY = 0.8;
+
+const FILE_EXTENSIONS: Record<AttachmentKind, string> = {
+  image: 'jpg',
+  audio: 'm4a',
+};
+
+// Enough to find an attachment's files
+export type AttachmentRef = Pick<Attachment, 'id' | 'kind'>;
+
+// A picked or captured image, before it's copied into the journal
+export interface ImageSource {
+  uri: string;
+}
+
+class AttachmentService {
+  // Files live in the document directory so the OS never evicts them like cache files
+  private get directory(): Directory {
+    return new Directory(Paths.document, 'attachments');
+  }
+
+  private ensureDirectory() {
+    this.directory.create({ idempotent: true, intermediates: true });
+  }
+
+  private getFile({ id, kind }: AttachmentRef): File {
+    return new File(this.directory, `${id}.${FILE_EXTENSIONS[kind]}`);
+  }
+
+  private getThumbnailFile(id: string): File {
+    return new File(this.directory, `${id}_thumb.jpg`);
+  }
+
+  // Re-encode an image as JPEG no larger than maxSize on its longest side
+  private async saveResized(uri: string, maxSize: number, destination: File): Promise<{ width: number; height: number }> {
+    let image = await ImageManipulator.manipulate(uri).renderAsync();
+    if (Math.max(image.width, image.height) > maxSize) {
+      image = await ImageManipulator.manipulate(image)
+        .resize(image.width >= image.height ? { width: maxSize } : { height: maxSize })
+        .renderAsync();
+    }
+
+    const result = await image.saveAsync({ compress: JPEG_QUALITY, format: SaveFormat.JPEG });
+    if (destination.exists) {
+      destination.delete();
+    }
+    new File(result.uri).move(destination);
+    return { width: result.width, height: result.height };
+  }
+
+  // Copy a picked image into the journal, scaled down, with a thumbnail for lists
+  async importImage(source: ImageSource): Promise<Attachment> {
+    this.ensureDirectory();
+    const id = Crypto.randomUUID();
+    const file = this.getFile({ id, kind: 'image' });
+    const { width, height } = await this.saveResized(source.uri, PHOTO_MAX_SIZE, file);
+    await this.saveResized(file.uri, THUMBNAIL_SIZE, this.getThumbnailFile(id));
+
+    return { id, kind: 'image', mimeType: 'image/jpeg', createdAt: new Date().toISOString(), width, height };
+  }
+
+  // Move a finished recording (an .m4a file in the cache) into the journal
+  importRecording(uri: string, durationMs: number): Attachment {
+    this.ensureDirectory();
+    const id = Crypto.randomUUID();
+    new File(uri).move(this.getFile({ id, kind: 'audio' }));
+
+    return { id, kind: 'audio', mimeType: 'audio/mp4', createdAt: new Date().toISOString(), durationMs };
+  }
+
+  hasLocalFile(attachment: AttachmentRef): boolean {
+    return this.getFile(attachment).exists;
+  }
+
+  // URI of the full-size file, or null when it hasn't been downloaded to this device
+  getUri(attachment: AttachmentRef): string | null {
+    const file = this.getFile(attachment);
+    return file.exists ? file.uri : null;
+  }
+
+  getThumbnailUri(attachment: AttachmentRef): string | null {
+    const thumbnail = this.getThumbnailFile(attachment.id);
+    return thumbnail.exists ? thumbnail.uri : this.getUri(attachment);
+  }
+
+  // Backups carry file content as base64
+  async readBase64(attachment: AttachmentRef): Promise<string> {
+    return this.getFile(attachment).base64();
+  }
+
+  async writeBase64(attachment: AttachmentRef, data: string): Promise<void> {
+    this.ensureDirectory();
+    const file = this.getFile(attachment);
+    if (file.exists) {
+      file.delete();
+    }
+    file.create();
+    file.write(data, { encoding: 'base64' });
+    if (attachment.kind === 'image') {
+      await this.saveResized(file.uri, THUMBNAIL_SIZE, this.getThumbnailFile(attachment.id));
+    }
+  }
+
+  deleteLocal(attachment: AttachmentRef) {
+    [this.getFile(attachment), this.getThumbnailFile(attachment.id)].forEach((file) => {
+      if (file.exists) {
+        file.delete();
+      }
+    });
+  }
+
+  // Delete every attachment file except those of the attachments in `keepIds`
+  deleteAllLocal(keepIds: Set<string> = new Set()) {
+    if (!this.directory.exists) return;
+    if (keepIds.size === 0) {
+      this.directory.delete();
+      return;
+    }
+
+    // File names are the ID followed by "." or "_thumb"
+    this.directory.list().forEach((file) => {
+      if (!keepIds.has(file.name.split(/[._]/)[0])) {
+        file.delete();
+      }
+    });
+  }
+}
+
+export const attachmentService = new AttachmentService();
@@ -0,0 +1,175 @@
+import * as SecureStore from 'expo-secure-store';
+import { getRandomBytes } from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha.js';
+import { scryptAsync } from '@noble/hashes/scrypt.js';
+import { utf8ToBytes, bytesToUtf8 } from '@noble/ciphers/utils.js';
+
+const KEY_STORAGE_KEY = 'encryption_key';
+const ENVELOPE_VERSION = 1;
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, dkLen: 32 };
+
+// Encrypted file as stored remotely; the salt travels with the data so other devices can derive the key
+interface EncryptedEnvelope {
+  encrypted: true;
+  version: number;
+  salt: string; // base64
+  nonce: string; // base64
+  data: string; // base64 ciphertext
+}
+
+interface StoredKey {
+  salt: string;
+  key: string;
+}
+
+// Remote data can't be decrypted with what this device knows; never treat it as missing data
+export class EncryptionError extends Error {}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const isEnvelope = (value: unknown): value is EncryptedEnvelope =>
+  typeof value === 'object' && value !== null && (value as EncryptedEnvelope).encrypted === true;
+
+class EncryptionService {
+  private stored: StoredKey | null = null;
+  private key: Uint8Array | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private pendingPassphrase: string | null = null; // entered on this device, checked against the next envelope
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await SecureStore.getItemAsync(KEY_STORAGE_KEY);
+          if (stored) {
+            this.setStoredKey(JSON.parse(stored));
+          }
+        } catch (error) {
+          console.error('Failed to load encryption key:', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private setStoredKey(stored: StoredKey | null) {
+    this.stored = stored;
+    this.key = stored ? fromBase64(stored.key) : null;
+  }
+
+  private async persistKey(stored: StoredKey | null): Promise<void> {
+    this.setStoredKey(stored);
+    if (stored) {
+      await SecureStore.setItemAsync(KEY_STORAGE_KEY, JSON.stringify(stored));
+    } else {
+      await SecureStore.deleteItemAsync(KEY_STORAGE_KEY);
+    }
+  }
+
+  private async deriveKey(passphrase: string, salt: Uint8Array): Promise<Uint8Array> {
+    return scryptAsync(utf8ToBytes(passphrase), salt, SCRYPT_OPTIONS);
+  }
+
+  private decrypt(envelope: EncryptedEnvelope, key: Uint8Array): string | null {
+    try {
+      const cipher = xchacha20poly1305(key, fromBase64(envelope.nonce));
+      return bytesToUtf8(cipher.decrypt(fromBase64(envelope.data)));
+    } catch {
+      // Authentication failed: wrong key
+      return null;
+    }
+  }
+
+  async isEnabled(): Promise<boolean> {
+    await this.ensureLoaded();
+    return !!this.key;
+  }
+
+  // Turn encryption on, or change the passphrase; a fresh salt makes old keys useless
+  async setPassphrase(passphrase: string): Promise<void> {
+    await this.ensureLoaded();
+    const salt = getRandomBytes(16);
+    const key = await this.deriveKey(passphrase, salt);
+    this.pendingPassphrase = null;
+    await this.persistKey({ salt: toBase64(salt), key: toBase64(key) });
+  }
+
+  // Use the family passphrase set on another device; it is verified against the next encrypted file read
+  async unlock(passphrase: string): Promise<void> {
+    await this.ensureLoaded();
+    this.pendingPassphrase = passphrase;
+  }
+
+  async disable(): Promise<void> {
+    await this.ensureLoaded();
+    this.pendingPassphrase = null;
+    await this.persistKey(null);
+  }
+
+  // Serialize data for upload, encrypting it when a key is set
+  async seal(content: string): Promise<string> {
+    await this.ensureLoaded();
+    if (!this.key || !this.stored) {
+      return content;
+    }
+
+    const nonce = getRandomBytes(24);
+    const cipher = xchacha20poly1305(this.key, nonce);
+    const envelope: EncryptedEnvelope = {
+      encrypted: true,
+      version: ENVELOPE_VERSION,
+      salt: this.stored.salt,
+      nonce: toBase64(nonce),
+      data: toBase64(cipher.encrypt(utf8ToBytes(content))),
+    };
+    return JSON.stringify(envelope);
+  }
+
+  // Parse downloaded data, decrypting it if it was encrypted; unencrypted files pass through
+  async open<T>(content: string): Promise<T> {
+    await this.ensureLoaded();
+    const parsed = JSON.parse(content);
+    if (!isEnvelope(parsed)) {
+      return parsed;
+    }
+
+    if (this.key && this.stored?.salt === parsed.salt) {
+      const plaintext = this.decrypt(parsed, this.key);
+      if (plaintext === null) {
+        throw new EncryptionError('Backup could not be decrypted. The family passphrase may have changed.');
+      }
+      return JSON.parse(plaintext);
+    }
+
+    if (!this.pendingPassphrase) {
+      throw new EncryptionError(
+        this.key
+          ? 'The family passphrase was changed on another device. Enter the new passphrase in Settings.'
+          : 'Your backup is encrypted. Enter the family passphrase in Settings to unlock it.'
+      );
+    }
+
+    // Derive the key for this file's salt and keep it only if it actually decrypts
+    const key = await this.deriveKey(this.pendingPassphrase, fromBase64(parsed.salt));
+    const plaintext = this.decrypt(parsed, key);
+    if (plaintext === null) {
+      this.pendingPassphrase = null;
+      throw new EncryptionError('Incorrect passphrase. Please check it and try again.');
+    }
+
+    this.pendingPassphrase = null;
+    await this.persistKey({ salt: parsed.salt, key: toBase64(key) });
+    return JSON.parse(plaintext);
+  }
+}
+
+export const encryptionService = new EncryptionService();
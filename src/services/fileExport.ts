@@ -0,0 +1,36 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+interface ShareFileOptions {
+  mimeType: string;
+  UTI: string; // iOS uniform type identifier
+  dialogTitle: string;
+}
+
+class FileExportService {
+  // Write content to a file in the cache directory and open the share sheet for it
+  async shareTextFile(fileName: string, content: string, options: ShareFileOptions): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    const file = new File(Paths.cache, fileName);
+    if (file.exists) {
+      file.delete();
+    }
+    file.create();
+    file.write(content);
+
+    await this.shareFile(file.uri, options);
+  }
+
+  // Open the share sheet for a file that already exists on the device
+  async shareFile(uri: string, options: ShareFileOptions): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+    await Sharing.shareAsync(uri, options);
+  }
+}
+
+export const fileExportService = new FileExportService();
@@ -32,7 +32,6 @@ export function configureGoogleSignIn() {
 export interface GoogleAuthResult {
   success: boolean;
   accessToken?: string;
-  refreshToken?: string;
   email?: string;
   name?: string;
   error?: string;
@@ -145,3 +144,23 @@ export async function getTokens() {
     return null;
   }
 }
+
+// Get a fresh access token for the current session (Drive tokens expire after an hour).
+// Clears the cached token first so getTokens() doesn't hand back the expired one,
+// then falls back to a silent sign-in.
+export async function refreshAccessToken(expiredToken: string | null): Promise<string | null> {
+  try {
+    if (expiredToken) {
+      await GoogleSignin.clearCachedAccessToken(expiredToken);
+    }
+    const tokens = await GoogleSignin.getTokens();
+    if (tokens.accessToken && tokens.accessToken !== expiredToken) {
+      return tokens.accessToken;
+    }
+  } catch (error) {
+    console.log('Token refresh via getTokens failed:', error);
+  }
+
+  const result = await signInSilently();
+  return result.success ? result.accessToken || null : null;
+}
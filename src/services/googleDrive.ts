@@ -1,8 +1,14 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AppSettings, MonthlyEntries } from '../types';
+import { AttachmentFile, RemoteBackend, RemoteChanges } from './remoteBackend';
+import { refreshAccessToken } from './googleAuth';
+import { encryptionService } from './encryption';
+import { useAuthStore } from '../stores/authStore';
 
 const DRIVE_API_BASE = 'https://www.googleapis.com/drive/v3';
 const UPLOAD_API_BASE = 'https://www.googleapis.com/upload/drive/v3';
 const APP_FOLDER_NAME = 'OurJournal';
+const FILE_ID_CACHE_KEY = 'drive_file_ids';
 
 interface DriveFile {
   id: string;
@@ -10,19 +16,68 @@ interface DriveFile {
   mimeType: string;
 }
 
-class GoogleDriveService {
+// Drive API failure that keeps the HTTP status, so callers can react to 404s
+class DriveRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+interface DriveChange {
+  removed?: boolean;
+  file?: { name: string; parents?: string[] };
+}
+
+class GoogleDriveService implements RemoteBackend {
+  readonly id = 'googleDrive' as const;
   private accessToken: string | null = null;
   private appFolderId: string | null = null;
   private entriesFolderId: string | null = null;
+  private attachmentsFolderId: string | null = null;
+  private refreshPromise: Promise<string | null> | null = null;
+  private fileIds: Record<string, string> | null = null; // "parentId/name" -> file ID
 
   setAccessToken(token: string | null) {
     this.accessToken = token;
-    // Reset folder IDs when token changes
-    this.appFolderId = null;
-    this.entriesFolderId = null;
+    // Reset folder and file IDs when signed out (a refreshed token keeps the same account)
+    if (!token) {
+      this.appFolderId = null;
+      this.entriesFolderId = null;
+      this.attachmentsFolderId = null;
+      this.clearFileIdCache();
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.accessToken;
   }
 
-  private async request(url: string, options: RequestInit = {}): Promise<Response> {
+  // Refresh the expired token once, sharing the result between concurrent requests
+  private refreshToken(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      const expiredToken = this.accessToken;
+      this.refreshPromise = refreshAccessToken(expiredToken)
+        .then((token) => {
+          if (token) {
+            this.accessToken = token;
+            useAuthStore.getState().setAuth({ accessToken: token, sessionExpired: false });
+          } else {
+            useAuthStore.getState().setAuth({ accessToken: null, sessionExpired: true });
+          }
+          return token;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  private async request(
+    url: string,
+    options: RequestInit = {},
+    isRetry: boolean = false
+  ): Promise<Response> {
     if (!this.accessToken) {
       throw new Error('Not authenticated');
     }
@@ -35,9 +90,18 @@ class GoogleDriveService {
       },
     });
 
+    // Access token expired: refresh it and replay the request once
+    if (response.status === 401 && !isRetry) {
+      const token = await this.refreshToken();
+      if (!token) {
+        throw new Error('Google session expired. Please sign in again.');
+      }
+      return this.request(url, options, true);
+    }
+
     if (!response.ok) {
       const error = await response.json().catch(() => ({}));
-      throw new Error(error.error?.message || `HTTP ${response.status}`);
+      throw new DriveRequestError(error.error?.message || `HTTP ${response.status}`, response.status);
     }
 
     return response;
@@ -96,6 +160,15 @@ class GoogleDriveService {
     return this.entriesFolderId;
   }
 
+  private async ensureAttachmentsFolder(): Promise<string> {
+    if (this.attachmentsFolderId) {
+      return this.attachmentsFolderId;
+    }
+    const appFolderId = await this.ensureAppFolder();
+    this.attachmentsFolderId = await this.findOrCreateFolder('attachments', appFolderId);
+    return this.attachmentsFolderId;
+  }
+
   private async findFile(name: string, parentId: string): Promise<string | null> {
     const query = `name='${name}' and '${parentId}' in parents and trashed=false`;
     const response = await this.request(
@@ -105,6 +178,69 @@ class GoogleDriveService {
     return result.files?.[0]?.id || null;
   }
 
+  // File ID cache, persisted so uploads skip the Drive search after a restart
+
+  private async getFileIdCache(): Promise<Record<string, string>> {
+    if (!this.fileIds) {
+      try {
+        const stored = await AsyncStorage.getItem(FILE_ID_CACHE_KEY);
+        this.fileIds = stored ? JSON.parse(stored) : {};
+      } catch (error) {
+        console.error('Failed to load Drive file ID cache:', error);
+        this.fileIds = {};
+      }
+    }
+    return this.fileIds!;
+  }
+
+  private async setCachedFileId(name: string, parentId: string, fileId: string | null): Promise<void> {
+    const cache = await this.getFileIdCache();
+    const key = `${parentId}/${name}`;
+    if (fileId) {
+      cache[key] = fileId;
+    } else {
+      delete cache[key];
+    }
+
+    try {
+      await AsyncStorage.setItem(FILE_ID_CACHE_KEY, JSON.stringify(cache));
+    } catch (error) {
+      console.error('Failed to save Drive file ID cache:', error);
+    }
+  }
+
+  private clearFileIdCache() {
+    this.fileIds = {};
+    AsyncStorage.removeItem(FILE_ID_CACHE_KEY).catch((error) =>
+      console.error('Failed to clear Drive file ID cache:', error)
+    );
+  }
+
+  // Run an operation with a file's ID (null if it doesn't exist yet). A cached ID that
+  // 404s was deleted or moved elsewhere, so look the file up again and retry once.
+  private async withFileId<T>(
+    name: string,
+    parentId: string,
+    operation: (fileId: string | null) => Promise<T>
+  ): Promise<T> {
+    const cache = await this.getFileIdCache();
+    const cachedId = cache[`${parentId}/${name}`];
+
+    if (cachedId) {
+      try {
+        return await operation(cachedId);
+      } catch (error) {
+        if (!(error instanceof DriveRequestError && error.status === 404)) {
+          throw error;
+        }
+      }
+    }
+
+    const fileId = await this.findFile(name, parentId);
+    await this.setCachedFileId(name, parentId, fileId);
+    return operation(fileId);
+  }
+
   private async uploadFile(
     name: string,
     content: string,
@@ -155,68 +291,114 @@ class GoogleDriveService {
 
   // Public API
 
-  async saveSettings(settings: AppSettings): Promise<void> {
-    const appFolderId = await this.ensureAppFolder();
-    const existingId = await this.findFile('settings.json', appFolderId);
-    await this.uploadFile('settings.json', JSON.stringify(settings), appFolderId, existingId);
+  private async saveJsonFile(name: string, data: unknown, parentId: string): Promise<void> {
+    const content = await encryptionService.seal(JSON.stringify(data));
+    await this.withFileId(name, parentId, async (existingId) => {
+      const fileId = await this.uploadFile(name, content, parentId, existingId);
+      if (fileId !== existingId) {
+        await this.setCachedFileId(name, parentId, fileId);
+      }
+    });
   }
 
-  async loadSettings(): Promise<AppSettings | null> {
-    try {
-      const appFolderId = await this.ensureAppFolder();
-      const fileId = await this.findFile('settings.json', appFolderId);
+  private async loadJsonFile<T>(name: string, parentId: string): Promise<T | null> {
+    return this.withFileId(name, parentId, async (fileId) => {
       if (!fileId) {
         return null;
       }
       const content = await this.downloadFile(fileId);
-      return JSON.parse(content);
-    } catch (error) {
-      console.error('Failed to load settings from Drive:', error);
-      return null;
-    }
+      return encryptionService.open<T>(content);
+    });
+  }
+
+  async saveSettings(settings: AppSettings): Promise<void> {
+    const appFolderId = await this.ensureAppFolder();
+    await this.saveJsonFile('settings.json', settings, appFolderId);
+  }
+
+  async loadSettings(): Promise<AppSettings | null> {
+    const appFolderId = await this.ensureAppFolder();
+    return this.loadJsonFile<AppSettings>('settings.json', appFolderId);
   }
 
   async saveMonthlyEntries(data: MonthlyEntries): Promise<void> {
     const entriesFolderId = await this.ensureEntriesFolder();
-    const fileName = `${data.month}.json`;
-    const existingId = await this.findFile(fileName, entriesFolderId);
-    await this.uploadFile(fileName, JSON.stringify(data), entriesFolderId, existingId);
+    await this.saveJsonFile(`${data.month}.json`, data, entriesFolderId);
   }
 
   async loadMonthlyEntries(month: string): Promise<MonthlyEntries | null> {
-    try {
-      const entriesFolderId = await this.ensureEntriesFolder();
-      const fileName = `${month}.json`;
-      const fileId = await this.findFile(fileName, entriesFolderId);
-      if (!fileId) {
-        return null;
-      }
-      const content = await this.downloadFile(fileId);
-      return JSON.parse(content);
-    } catch (error) {
-      console.error('Failed to load monthly entries from Drive:', error);
-      return null;
-    }
+    const entriesFolderId = await this.ensureEntriesFolder();
+    return this.loadJsonFile<MonthlyEntries>(`${month}.json`, entriesFolderId);
+  }
+
+  async saveAttachment(id: string, file: AttachmentFile): Promise<void> {
+    const attachmentsFolderId = await this.ensureAttachmentsFolder();
+    await this.saveJsonFile(`${id}.json`, file, attachmentsFolderId);
+  }
+
+  async loadAttachment(id: string): Promise<AttachmentFile | null> {
+    const attachmentsFolderId = await this.ensureAttachmentsFolder();
+    return this.loadJsonFile<AttachmentFile>(`${id}.json`, attachmentsFolderId);
+  }
+
+  // Deleting a file that is already gone succeeds
+  async deleteAttachment(id: string): Promise<void> {
+    const attachmentsFolderId = await this.ensureAttachmentsFolder();
+    await this.withFileId(`${id}.json`, attachmentsFolderId, async (fileId) => {
+      if (!fileId) return;
+      await this.request(`${DRIVE_API_BASE}/files/${fileId}`, { method: 'DELETE' });
+    });
+    await this.setCachedFileId(`${id}.json`, attachmentsFolderId, null);
   }
 
   async listMonthlyEntryFiles(): Promise<string[]> {
-    try {
-      const entriesFolderId = await this.ensureEntriesFolder();
-      const query = `'${entriesFolderId}' in parents and trashed=false`;
+    const entriesFolderId = await this.ensureEntriesFolder();
+    const query = `'${entriesFolderId}' in parents and trashed=false`;
+    const response = await this.request(
+      `${DRIVE_API_BASE}/files?q=${encodeURIComponent(query)}&fields=files(name)`
+    );
+    const result = await response.json();
+    return (result.files || [])
+      .map((f: DriveFile) => f.name.replace('.json', ''))
+      .filter((name: string) => /^\d{4}-\d{2}$/.test(name));
+  }
+
+  // Walk the Drive changes feed from `cursor` (a page token) and collect changed month files
+  async getChangedMonths(cursor: string | null): Promise<RemoteChanges> {
+    if (!cursor) {
+      const response = await this.request(`${DRIVE_API_BASE}/changes/startPageToken`);
+      const result = await response.json();
+      return { months: null, cursor: result.startPageToken };
+    }
+
+    const entriesFolderId = await this.ensureEntriesFolder();
+    const fields = 'nextPageToken,newStartPageToken,changes(removed,file(name,parents))';
+    const months = new Set<string>();
+    let pageToken = cursor;
+
+    while (true) {
       const response = await this.request(
-        `${DRIVE_API_BASE}/files?q=${encodeURIComponent(query)}&fields=files(name)`
+        `${DRIVE_API_BASE}/changes?pageToken=${encodeURIComponent(pageToken)}&spaces=drive&fields=${encodeURIComponent(fields)}`
       );
       const result = await response.json();
-      return (result.files || [])
-        .map((f: DriveFile) => f.name.replace('.json', ''))
-        .filter((name: string) => /^\d{4}-\d{2}$/.test(name));
-    } catch (error) {
-      console.error('Failed to list monthly entries:', error);
-      return [];
+
+      (result.changes || []).forEach((change: DriveChange) => {
+        if (change.removed || !change.file?.parents?.includes(entriesFolderId)) return;
+        const month = change.file.name.replace('.json', '');
+        if (/^\d{4}-\d{2}$/.test(month)) {
+          months.add(month);
+        }
+      });
+
+      // newStartPageToken only appears on the last page
+      if (result.newStartPageToken || !result.nextPageToken) {
+        return { months: Array.from(months), cursor: result.newStartPageToken || pageToken };
+      }
+      pageToken = result.nextPageToken;
     }
   }
 
-  async deleteAppFolder(): Promise<boolean> {
+  async deleteAll(): Promise<boolean> {
     try {
       // Find the app folder
       const query = `name='${APP_FOLDER_NAME}' and mimeType='application/vnd.google-apps.folder' and trashed=false`;
@@ -237,9 +419,11 @@ class GoogleDriveService {
         method: 'DELETE',
       });
 
-      // Reset cached folder IDs
+      // Reset cached folder and file IDs
       this.appFolderId = null;
       this.entriesFolderId = null;
+      this.attachmentsFolderId = null;
+      this.clearFileIdCache();
 
       return true;
     } catch (error) {
@@ -125,10 +125,13 @@ export const notificationService = {
     );
 
     // Schedule new notifications
+    // Archived members, sections and tasks get no reminders
     for (const member of members) {
+      if (member.archivedAt) continue;
       for (const section of member.sections) {
+        if (section.archivedAt) continue;
         for (const task of section.tasks) {
-          if (task.reminder?.enabled) {
+          if (task.reminder?.enabled && !task.archivedAt) {
             await this.scheduleTaskReminder(member, section, task);
           }
         }
@@ -0,0 +1,42 @@
+import { AppSettings, MonthlyEntries, BackendType } from '../types';
+
+// Months changed remotely since a sync cursor; `months` is null when every month must be checked
+export interface RemoteChanges {
+  months: string[] | null;
+  cursor: string; // opaque, persisted locally and passed back on the next sync
+}
+
+// An attachment's file as stored remotely: base64 content in a JSON file, so it is
+// encrypted like the rest of the backup
+export interface AttachmentFile {
+  mimeType: string;
+  data: string; // base64
+}
+
+// A remote copy of the journal that StorageService can back up to and sync with
+export interface RemoteBackend {
+  readonly id: BackendType;
+
+  // Whether the backend has what it needs (credentials, server URL) to be used
+  isConfigured(): boolean;
+
+  // Loads resolve null only when the file doesn't exist; any failure to read it throws,
+  // so a missing copy is never confused with one that couldn't be fetched
+  saveSettings(settings: AppSettings): Promise<void>;
+  loadSettings(): Promise<AppSettings | null>;
+
+  saveMonthlyEntries(data: MonthlyEntries): Promise<void>;
+  loadMonthlyEntries(month: string): Promise<MonthlyEntries | null>;
+  listMonthlyEntryFiles(): Promise<string[]>; // months as "yyyy-MM"
+
+  // Attachment files, kept in an attachments folder next to the month files
+  saveAttachment(id: string, file: AttachmentFile): Promise<void>;
+  loadAttachment(id: string): Promise<AttachmentFile | null>;
+  deleteAttachment(id: string): Promise<void>;
+
+  // Incremental sync: months changed since `cursor` (null on the first sync)
+  getChangedMonths(cursor: string | null): Promise<RemoteChanges>;
+
+  // Delete everything the app stored remotely; resolves false on failure
+  deleteAll(): Promise<boolean>;
+}
@@ -0,0 +1,32 @@
+import * as Print from 'expo-print';
+import { format, parseISO } from 'date-fns';
+import { FamilyMember } from '../types';
+import { storageService } from './storage';
+import { fileExportService } from './fileExport';
+import { buildMonthlyReportHtml } from '../utils/reportUtils';
+
+class ReportService {
+  private async buildReport(member: FamilyMember, month: string): Promise<string> {
+    const monthlyEntries = await storageService.loadMonthlyEntries(month);
+    return buildMonthlyReportHtml(member, monthlyEntries, month);
+  }
+
+  // Open the system print dialog, which can also save the report as a PDF
+  async printMonthlyReport(member: FamilyMember, month: string): Promise<void> {
+    const html = await this.buildReport(member, month);
+    await Print.printAsync({ html });
+  }
+
+  // Render the report to a PDF and open the share sheet for it
+  async shareMonthlyReportPdf(member: FamilyMember, month: string): Promise<void> {
+    const html = await this.buildReport(member, month);
+    const { uri } = await Print.printToFileAsync({ html });
+    await fileExportService.shareFile(uri, {
+      mimeType: 'application/pdf',
+      UTI: 'com.adobe.pdf',
+      dialogTitle: `${member.name} · ${format(parseISO(`${month}-01`), 'MMMM yyyy')}`,
+    });
+  }
+}
+
+export const reportService = new ReportService();
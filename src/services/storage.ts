@@ -1,41 +1,215 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Notifications from 'expo-notifications';
 import { googleDriveService } from './googleDrive';
-import { AppSettings, MonthlyEntries } from '../types';
+import { RemoteBackend } from './remoteBackend';
+import { syncQueue, getTargetId, PendingUploadTarget } from './syncQueue';
+import { attachmentService } from './attachments';
+import { encryptionService, EncryptionError } from './encryption';
+import { AppSettings, ArchivedAttachment, Attachment, MonthlyEntries, SyncState, ImportMode, HistoryTarget, FamilyMember } from '../types';
+import { mergeMonthlyEntries, isSameMonthlyData } from '../utils/mergeUtils';
+import { migrateSettings, migrateMonthlyEntries, SchemaError } from '../utils/migrations';
+import { validateAppSettings, validateMonthlyEntries, ValidationResult } from '../utils/validation';
+import { mergeSettingsForImport } from '../utils/archiveUtils';
+import { mergePurgedHistory, purgeMonthlyEntries } from '../utils/historyUtils';
+import { repairTypeMismatches } from '../utils/integrityUtils';
+import { collectAttachments, getDroppedAttachments } from '../utils/attachmentUtils';
+
+const SETTINGS_KEY = 'app_settings';
+const ENTRIES_KEY_PREFIX = 'entries_';
+const SYNC_CURSOR_KEY_PREFIX = 'sync_cursor_';
+const QUARANTINE_KEY_PREFIX = 'quarantine_';
+const UPLOAD_DEBOUNCE_MS = 2000;
+
+type SyncStatusListener = (status: Partial<SyncState>) => void;
+
+// Where the last successful sync with a backend left off
+interface SyncCursor {
+  cursor: string;
+  syncedAt: string; // ISO time the sync started; later local edits still need reconciling
+}
+
+// Months to reconcile on an incremental sync; null means every month
+interface SyncPlan {
+  remoteMonths: string[] | null;
+  cursor: SyncCursor | null;
+  previous: SyncCursor | null;
+}
 
 class StorageService {
-  private isOnline: boolean = false;
+  private backend: RemoteBackend = googleDriveService;
   private accessToken: string | null = null;
+  private activeSyncs: number = 0;
+  private syncListeners = new Set<SyncStatusListener>();
+  private uploadTimers = new Map<string, { target: PendingUploadTarget; timer: ReturnType<typeof setTimeout> }>();
+
+  constructor() {
+    syncQueue.setProcessor((target) => this.uploadPending(target));
+  }
+
+  // Online whenever the selected backend has credentials to work with
+  private get isOnline(): boolean {
+    return this.backend.isConfigured();
+  }
 
   setOnlineMode(token: string | null) {
+    // The next account may differ, so its changes must be read from scratch
+    if (!token && this.accessToken) {
+      AsyncStorage.removeItem(`${SYNC_CURSOR_KEY_PREFIX}${googleDriveService.id}`);
+    }
+
     this.accessToken = token;
-    this.isOnline = !!token;
     googleDriveService.setAccessToken(token);
+
+    // Coming online is the best moment to retry anything that failed earlier
+    if (this.isOnline) {
+      this.processPendingUploads();
+    }
+  }
+
+  // Switch the remote backup destination (Google Drive, WebDAV)
+  setBackend(backend: RemoteBackend) {
+    this.backend = backend;
+    if (this.isOnline) {
+      this.processPendingUploads();
+    }
+  }
+
+  // Sync status reporting (isSyncing / lastSyncTime / syncError)
+  onSyncStatusChange(listener: SyncStatusListener): () => void {
+    this.syncListeners.add(listener);
+    return () => {
+      this.syncListeners.delete(listener);
+    };
+  }
+
+  private reportSyncStatus(status: Partial<SyncState>) {
+    this.syncListeners.forEach((listener) => listener(status));
+  }
+
+  // Run a remote backup operation while reporting its progress and outcome
+  private async trackSync<T>(operation: () => Promise<T>): Promise<T> {
+    this.activeSyncs++;
+    this.reportSyncStatus({ isSyncing: true });
+    try {
+      const result = await operation();
+      this.reportSyncStatus({ lastSyncTime: new Date().toISOString(), syncError: null, passphraseRequired: false });
+      return result;
+    } catch (error) {
+      this.reportSyncStatus({
+        syncError: error instanceof Error ? error.message : 'Unknown sync error',
+        ...(error instanceof EncryptionError ? { passphraseRequired: true } : {}),
+      });
+      throw error;
+    } finally {
+      this.activeSyncs--;
+      this.reportSyncStatus({ isSyncing: this.activeSyncs > 0 });
+    }
+  }
+
+  // Full two-way sync: merge everything with the backend, then flush the upload queue
+  async syncNow(): Promise<void> {
+    if (!this.isOnline) {
+      throw new Error('Sign in with Google or set up a WebDAV server to sync');
+    }
+    await this.flushScheduledUploads();
+    await this.reconcileWithCloud();
+    await syncQueue.process(true);
+  }
+
+  // Retry queued uploads immediately, ignoring backoff
+  async processPendingUploads(): Promise<void> {
+    if (!this.isOnline) return;
+    await syncQueue.process(true);
+  }
+
+  // Upload the current local copy of a queued file
+  private async uploadPending(target: PendingUploadTarget): Promise<void> {
+    if (!this.isOnline) {
+      throw new Error('Not authenticated');
+    }
+
+    await this.trackSync(async () => {
+      if (target.type === 'settings') {
+        const settings = await this.readLocalSettings();
+        if (settings) {
+          await this.uploadSettings(settings);
+        }
+      } else if (target.type === 'month') {
+        const localData = await this.readLocalMonth(target.month);
+        const driveData = await this.loadRemoteMonth(target.month);
+        await this.reconcileMonth(target.month, localData, driveData);
+      } else if (target.removed) {
+        await this.ensureCanUpload();
+        await this.backend.deleteAttachment(target.id);
+      } else if (attachmentService.hasLocalFile(target)) {
+        await this.ensureCanUpload();
+        const data = await attachmentService.readBase64(target);
+        await this.backend.saveAttachment(target.id, { mimeType: target.mimeType, data });
+      }
+    });
+  }
+
+  // Debounce uploads so a burst of saves to the same file produces a single upload
+  private scheduleUpload(target: PendingUploadTarget) {
+    const id = getTargetId(target);
+    const scheduled = this.uploadTimers.get(id);
+    if (scheduled) {
+      clearTimeout(scheduled.timer);
+    }
+
+    const timer = setTimeout(() => {
+      this.uploadTimers.delete(id);
+      this.uploadNow(target);
+    }, UPLOAD_DEBOUNCE_MS);
+    this.uploadTimers.set(id, { target, timer });
+  }
+
+  private isUploadScheduled(target: PendingUploadTarget): boolean {
+    return this.uploadTimers.has(getTargetId(target));
+  }
+
+  private async uploadNow(target: PendingUploadTarget): Promise<void> {
+    try {
+      await this.uploadPending(target);
+      await syncQueue.remove(target);
+    } catch (error) {
+      console.error('Failed to upload changes:', error);
+      await syncQueue.enqueue(target, error);
+    }
+  }
+
+  // Upload everything still waiting in the debounce window (e.g. before the app is backgrounded)
+  async flushScheduledUploads(): Promise<void> {
+    const scheduled = Array.from(this.uploadTimers.values());
+    this.uploadTimers.clear();
+    scheduled.forEach(({ timer }) => clearTimeout(timer));
+    await Promise.all(scheduled.map(({ target }) => this.uploadNow(target)));
   }
 
   // Settings
   async saveSettings(settings: AppSettings): Promise<void> {
     // Always save locally
-    await AsyncStorage.setItem('app_settings', JSON.stringify(settings));
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
 
-    // Sync to Drive if online
+    // Upload once edits settle if online
     if (this.isOnline) {
-      try {
-        await googleDriveService.saveSettings(settings);
-      } catch (error) {
-        console.error('Failed to sync settings to Drive:', error);
-      }
+      this.scheduleUpload({ type: 'settings' });
     }
   }
 
   async loadSettings(): Promise<AppSettings | null> {
-    // Try to load from Drive first if online
-    if (this.isOnline) {
+    // Try to load from Drive first if online, unless a local change is still waiting to upload
+    if (
+      this.isOnline &&
+      !this.isUploadScheduled({ type: 'settings' }) &&
+      !(await syncQueue.isPending({ type: 'settings' }))
+    ) {
       try {
-        const driveSettings = await googleDriveService.loadSettings();
+        const driveSettings = await this.trackSync(async () => {
+          const remote = await this.loadRemoteSettings();
+          return remote ? this.adoptRemoteSettings(remote) : null;
+        });
         if (driveSettings) {
-          // Update local cache
-          await AsyncStorage.setItem('app_settings', JSON.stringify(driveSettings));
           return driveSettings;
         }
       } catch (error) {
@@ -44,100 +218,491 @@ class StorageService {
     }
 
     // Fall back to local storage
-    const local = await AsyncStorage.getItem('app_settings');
-    return local ? JSON.parse(local) : null;
+    return this.readLocalSettings();
   }
 
   // Entries
   async saveMonthlyEntries(data: MonthlyEntries): Promise<void> {
-    const key = `entries_${data.month}`;
+    const key = `${ENTRIES_KEY_PREFIX}${data.month}`;
 
     // Always save locally
     await AsyncStorage.setItem(key, JSON.stringify(data));
 
-    // Sync to Drive if online
+    // Merge with the Drive copy once edits settle if online, so edits from other devices survive
     if (this.isOnline) {
-      try {
-        await googleDriveService.saveMonthlyEntries(data);
-      } catch (error) {
-        console.error('Failed to sync entries to Drive:', error);
-      }
+      this.scheduleUpload({ type: 'month', month: data.month });
     }
   }
 
-  async loadMonthlyEntries(month: string): Promise<MonthlyEntries | null> {
-    const key = `entries_${month}`;
+  // Save entries edited without their month loaded, keeping everything already stored for it
+  async mergeIntoMonthlyEntries(data: MonthlyEntries): Promise<void> {
+    const localData = await this.readLocalMonth(data.month);
+    await this.saveMonthlyEntries(localData ? mergeMonthlyEntries(localData, data) : data);
+  }
 
-    // Try to load from Drive first if online
+  async loadMonthlyEntries(month: string): Promise<MonthlyEntries | null> {
+    // Merge the Drive copy into the local one if online
     if (this.isOnline) {
       try {
-        const driveData = await googleDriveService.loadMonthlyEntries(month);
-        if (driveData) {
-          // Update local cache
-          await AsyncStorage.setItem(key, JSON.stringify(driveData));
-          return driveData;
-        }
+        return await this.trackSync(async () => {
+          const localData = await this.readLocalMonth(month);
+          const driveData = await this.loadRemoteMonth(month);
+          return this.reconcileMonth(month, localData, driveData);
+        });
       } catch (error) {
         console.error('Failed to load entries from Drive:', error);
       }
     }
 
     // Fall back to local storage
+    return this.readLocalMonth(month);
+  }
+
+  // Loading: every read goes through the schema migrations and validators. Unusable data
+  // is set aside under a quarantine key and treated as missing; repaired data keeps a
+  // quarantined copy of the original; data from a newer app version throws.
+
+  // Keep a copy of bad data (one per source) so nothing discarded is lost for good
+  private async quarantine(source: string, raw: unknown): Promise<void> {
+    try {
+      const content = typeof raw === 'string' ? raw : JSON.stringify(raw);
+      await AsyncStorage.setItem(`${QUARANTINE_KEY_PREFIX}${source}`, content);
+    } catch (error) {
+      console.error('Failed to quarantine data:', error);
+    }
+  }
+
+  private async upgrade<T>(
+    source: string,
+    raw: unknown,
+    migrate: (raw: unknown) => T,
+    validate: (data: T) => ValidationResult<T>,
+    localKey?: string
+  ): Promise<T | null> {
+    let result: ValidationResult<T>;
+    try {
+      result = validate(migrate(typeof raw === 'string' ? JSON.parse(raw) : raw));
+    } catch (error) {
+      if (!(error instanceof SchemaError || error instanceof SyntaxError)) {
+        throw error;
+      }
+      result = { value: null, issues: [error.message] };
+    }
+
+    if (result.issues.length === 0) {
+      return result.value;
+    }
+
+    console.warn(`Discarded or repaired invalid data in ${source}:`, result.issues);
+    await this.quarantine(source, raw);
+
+    // Replace the local copy so the same problems aren't reported on every read
+    if (localKey) {
+      if (result.value) {
+        await AsyncStorage.setItem(localKey, JSON.stringify(result.value));
+      } else {
+        await AsyncStorage.removeItem(localKey);
+      }
+    }
+    return result.value;
+  }
+
+  // Replace the remote settings with local ones. The remote copy is read first: when it is
+  // encrypted and this device can't decrypt it, that read throws EncryptionError, so
+  // plaintext settings never overwrite an encrypted backup.
+  private async uploadSettings(settings: AppSettings): Promise<void> {
+    const remote = await this.loadRemoteSettings();
+    const merged = await this.keepPurges(settings, settings, remote);
+    if (merged !== settings) {
+      await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(merged));
+    }
+    await this.backend.saveSettings(merged);
+  }
+
+  // Replace the local settings with remote ones, uploading them again if they lacked a local purge
+  private async adoptRemoteSettings(remote: AppSettings): Promise<AppSettings> {
+    const merged = await this.keepPurges(remote, await this.readLocalSettings(), remote);
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(merged));
+    if (merged !== remote) {
+      await this.backend.saveSettings(merged);
+    }
+    return merged;
+  }
+
+  // Settings sync last-writer-wins, except that purges from both copies are kept so stale
+  // settings can't bring erased history back. Purges new to this device are applied to its months.
+  private async keepPurges(
+    winner: AppSettings,
+    local: AppSettings | null,
+    remote: AppSettings | null
+  ): Promise<AppSettings> {
+    const localPurges = local?.purgedHistory || [];
+    const purgedHistory = mergePurgedHistory(localPurges, remote?.purgedHistory || []);
+    if (purgedHistory.length > localPurges.length) {
+      await this.purgeHistory(purgedHistory);
+    }
+    return purgedHistory.length > (winner.purgedHistory || []).length ? { ...winner, purgedHistory } : winner;
+  }
+
+  // A device without the family passphrase would write plain JSON, so before it adds months or
+  // files to the backup, check the settings file: reading it throws EncryptionError when encrypted
+  private async ensureCanUpload(): Promise<void> {
+    if (await encryptionService.isEnabled()) return;
+    await this.backend.loadSettings();
+  }
+
+  private async readLocalSettings(): Promise<AppSettings | null> {
+    const local = await AsyncStorage.getItem(SETTINGS_KEY);
+    return local
+      ? this.upgrade('local_settings', local, migrateSettings, validateAppSettings, SETTINGS_KEY)
+      : null;
+  }
+
+  private async loadRemoteSettings(): Promise<AppSettings | null> {
+    const remote = await this.backend.loadSettings();
+    return remote ? this.upgrade('remote_settings', remote, migrateSettings, validateAppSettings) : null;
+  }
+
+  private async readLocalMonth(month: string): Promise<MonthlyEntries | null> {
+    const key = `${ENTRIES_KEY_PREFIX}${month}`;
     const local = await AsyncStorage.getItem(key);
-    return local ? JSON.parse(local) : null;
+    return local
+      ? this.upgrade(`local_${month}`, local, migrateMonthlyEntries, validateMonthlyEntries, key)
+      : null;
+  }
+
+  private async loadRemoteMonth(month: string): Promise<MonthlyEntries | null> {
+    const remote = await this.backend.loadMonthlyEntries(month);
+    return remote
+      ? this.upgrade(`remote_${month}`, remote, migrateMonthlyEntries, validateMonthlyEntries)
+      : null;
+  }
+
+  // Merge a month's local and Drive copies and write the result to whichever side is behind.
+  // Purged history is dropped again here so a stale copy can't bring it back.
+  private async reconcileMonth(
+    month: string,
+    localData: MonthlyEntries | null,
+    driveData: MonthlyEntries | null
+  ): Promise<MonthlyEntries | null> {
+    const combined =
+      localData && driveData ? mergeMonthlyEntries(localData, driveData) : localData || driveData;
+    if (!combined) {
+      return null;
+    }
+    const purgedHistory = (await this.readLocalSettings())?.purgedHistory || [];
+    const merged = purgeMonthlyEntries(combined, purgedHistory);
+
+    if (!localData || !isSameMonthlyData(merged, localData)) {
+      await AsyncStorage.setItem(`${ENTRIES_KEY_PREFIX}${month}`, JSON.stringify(merged));
+    }
+    if (!driveData || !isSameMonthlyData(merged, driveData)) {
+      await this.ensureCanUpload();
+      await this.backend.saveMonthlyEntries(merged);
+    }
+    await this.reconcileAttachments(merged, driveData, getDroppedAttachments(combined, merged));
+    return merged;
   }
 
-  // Sync all local data to Drive (call after login)
-  async syncToCloud(): Promise<void> {
+  // Upload attachment files the backup doesn't reference yet and delete the files of removed
+  // and purged ones. The month is already written by now, so a failing attachment is queued
+  // for retry (or just logged) instead of failing the month's sync.
+  private async reconcileAttachments(merged: MonthlyEntries, driveData: MonthlyEntries | null, purged: Attachment[]) {
+    const remote = new Map(collectAttachments(driveData).map((attachment) => [attachment.id, attachment]));
+
+    // Purged history takes its files with it, here and in the backup
+    const removed = [...purged, ...collectAttachments(merged).filter((attachment) => attachment.removedAt)];
+    for (const attachment of removed) {
+      const { id, kind, mimeType } = attachment;
+      try {
+        attachmentService.deleteLocal(attachment);
+      } catch (error) {
+        console.error('Failed to delete attachment file:', error);
+      }
+      if (!remote.get(id)?.removedAt) {
+        await this.uploadNow({ type: 'attachment', id, kind, mimeType, removed: true });
+      }
+    }
+
+    for (const attachment of collectAttachments(merged)) {
+      const { id, kind, mimeType, removedAt } = attachment;
+      if (!removedAt && !remote.has(id) && attachmentService.hasLocalFile(attachment)) {
+        await this.uploadNow({ type: 'attachment', id, kind, mimeType, removed: false });
+      }
+    }
+  }
+
+  // Fetch an attachment's file from the backup when this device doesn't have it yet
+  async downloadAttachment(attachment: Attachment): Promise<boolean> {
+    if (attachmentService.hasLocalFile(attachment)) return true;
+    if (!this.isOnline) return false;
+
+    const file = await this.trackSync(() => this.backend.loadAttachment(attachment.id));
+    if (!file) return false;
+    await attachmentService.writeBase64(attachment, file.data);
+    return true;
+  }
+
+  // Ask the backend what changed since the last sync; any failure falls back to a full sync
+  private async planSync(full: boolean = false): Promise<SyncPlan> {
+    const key = `${SYNC_CURSOR_KEY_PREFIX}${this.backend.id}`;
+    const syncedAt = new Date().toISOString();
+    try {
+      const stored = full ? null : await AsyncStorage.getItem(key);
+      const previous: SyncCursor | null = stored ? JSON.parse(stored) : null;
+      const changes = await this.backend.getChangedMonths(previous?.cursor ?? null);
+      return {
+        remoteMonths: changes.months,
+        cursor: { cursor: changes.cursor, syncedAt },
+        previous: changes.months ? previous : null,
+      };
+    } catch (error) {
+      console.error('Failed to fetch remote changes:', error);
+      await AsyncStorage.removeItem(key);
+      return { remoteMonths: null, cursor: null, previous: null };
+    }
+  }
+
+  private async saveSyncCursor(cursor: SyncCursor | null): Promise<void> {
+    if (!cursor) return;
+    await AsyncStorage.setItem(`${SYNC_CURSOR_KEY_PREFIX}${this.backend.id}`, JSON.stringify(cursor));
+  }
+
+  // Two-way reconciliation (call after first login): uploads local-only data,
+  // pulls down Drive-only data, and merges months that exist on both sides.
+  // `full` checks every month even when an incremental sync is possible.
+  async reconcileWithCloud(full: boolean = false): Promise<void> {
     if (!this.isOnline) return;
 
     try {
-      // Sync settings
-      const settingsJson = await AsyncStorage.getItem('app_settings');
-      if (settingsJson) {
-        const settings: AppSettings = JSON.parse(settingsJson);
-        await googleDriveService.saveSettings(settings);
-      }
-
-      // Find and sync all entry months
-      const keys = await AsyncStorage.getAllKeys();
-      const entryKeys = keys.filter((k) => k.startsWith('entries_'));
-
-      for (const key of entryKeys) {
-        const dataJson = await AsyncStorage.getItem(key);
-        if (dataJson) {
-          const data: MonthlyEntries = JSON.parse(dataJson);
-          await googleDriveService.saveMonthlyEntries(data);
+      await this.trackSync(async () => {
+        // Reconcile settings
+        const localSettings = await this.readLocalSettings();
+        const driveSettings = await this.loadRemoteSettings();
+
+        if (localSettings && (!driveSettings || localSettings.lastModified > driveSettings.lastModified)) {
+          const merged = await this.keepPurges(localSettings, localSettings, driveSettings);
+          if (merged !== localSettings) {
+            await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(merged));
+          }
+          await this.backend.saveSettings(merged);
+        } else if (driveSettings) {
+          await this.adoptRemoteSettings(driveSettings);
         }
-      }
+
+        // Reconcile every month that exists on either side, or on an incremental sync
+        // only the months changed remotely, changed locally, or missing remotely
+        const plan = await this.planSync(full);
+        const keys = await AsyncStorage.getAllKeys();
+        const localMonths = keys
+          .filter((k) => k.startsWith(ENTRIES_KEY_PREFIX))
+          .map((k) => k.slice(ENTRIES_KEY_PREFIX.length));
+        const driveMonths = await this.backend.listMonthlyEntryFiles();
+        const allMonths = new Set([...localMonths, ...driveMonths]);
+
+        // A month that can't be read or written is retried through the upload queue
+        // rather than holding up the others
+        let firstError: unknown = null;
+        for (const month of allMonths) {
+          try {
+            const localData = await this.readLocalMonth(month);
+            if (plan.previous && plan.remoteMonths && localData && driveMonths.includes(month)) {
+              const changedRemotely = plan.remoteMonths.includes(month);
+              const changedLocally = localData.lastModified > plan.previous.syncedAt;
+              if (!changedRemotely && !changedLocally) continue;
+            }
+
+            const driveData = driveMonths.includes(month)
+              ? await this.loadRemoteMonth(month)
+              : null;
+            await this.reconcileMonth(month, localData, driveData);
+          } catch (error) {
+            if (error instanceof EncryptionError) throw error;
+            console.error(`Failed to reconcile ${month}:`, error);
+            await syncQueue.enqueue({ type: 'month', month }, error);
+            firstError = firstError ?? error;
+          }
+        }
+        await this.saveSyncCursor(plan.cursor);
+        if (firstError) throw firstError;
+      });
     } catch (error) {
-      console.error('Sync to cloud failed:', error);
+      console.error('Reconcile with cloud failed:', error);
       throw error;
     }
   }
 
-  // Sync all cloud data to local (call after login)
-  async syncFromCloud(): Promise<void> {
+  // Check that remote data can be read (e.g. after entering the encryption passphrase)
+  async verifyRemoteAccess(): Promise<void> {
     if (!this.isOnline) return;
+    await this.trackSync(() => this.backend.loadSettings());
+  }
 
-    try {
-      // Sync settings
-      const driveSettings = await googleDriveService.loadSettings();
-      if (driveSettings) {
-        await AsyncStorage.setItem('app_settings', JSON.stringify(driveSettings));
-      }
-
-      // Get list of entry files from Drive
-      const months = await googleDriveService.listMonthlyEntryFiles();
-      for (const month of months) {
-        const data = await googleDriveService.loadMonthlyEntries(month);
-        if (data) {
-          await AsyncStorage.setItem(`entries_${month}`, JSON.stringify(data));
+  // Change how remote data is encrypted: bring everything down with the current key,
+  // apply the change, then upload every file again under the new setting
+  async reencryptRemoteData(applyKeyChange: () => Promise<void>): Promise<void> {
+    if (!this.isOnline) {
+      await applyKeyChange();
+      return;
+    }
+
+    await this.flushScheduledUploads();
+    await this.reconcileWithCloud(true);
+
+    // Attachment files are re-uploaded from this device, so fetch the missing ones while the
+    // current key can still read them; a failed download stops the key change
+    const { months } = await this.exportAllData();
+    const attachments = months.flatMap((data) =>
+      collectAttachments(data).filter((attachment) => !attachment.removedAt)
+    );
+    await this.trackSync(async () => {
+      for (const attachment of attachments) {
+        await this.downloadAttachment(attachment);
+      }
+    });
+
+    await applyKeyChange();
+
+    await this.trackSync(async () => {
+      const settings = await this.readLocalSettings();
+      if (settings) {
+        await this.backend.saveSettings(settings);
+      }
+
+      for (const data of months) {
+        await this.backend.saveMonthlyEntries(data);
+      }
+
+      // Files missing from the backup too have nothing to re-encrypt
+      for (const attachment of attachments) {
+        if (attachmentService.hasLocalFile(attachment)) {
+          const data = await attachmentService.readBase64(attachment);
+          await this.backend.saveAttachment(attachment.id, { mimeType: attachment.mimeType, data });
+        }
+      }
+    });
+  }
+
+  // Apply a change to every month stored on this device, saving (and uploading) the changed ones
+  private async rewriteLocalMonths(transform: (data: MonthlyEntries) => MonthlyEntries): Promise<void> {
+    const keys = await AsyncStorage.getAllKeys();
+    for (const key of keys.filter((k) => k.startsWith(ENTRIES_KEY_PREFIX))) {
+      const data = await this.readLocalMonth(key.slice(ENTRIES_KEY_PREFIX.length));
+      if (!data) continue;
+
+      const updated = transform(data);
+      if (!isSameMonthlyData(updated, data)) {
+        await this.saveMonthlyEntries({ ...updated, lastModified: new Date().toISOString() });
+      }
+    }
+  }
+
+  // Erase members', sections' or tasks' history from every month stored on this device.
+  // The targets must already be recorded in settings.purgedHistory so the remote copies
+  // (and their attachment files) are purged as each month is uploaded or reconciled.
+  async purgeHistory(targets: HistoryTarget[]): Promise<void> {
+    await this.rewriteLocalMonths((data) => {
+      const purged = purgeMonthlyEntries(data, targets);
+      getDroppedAttachments(data, purged).forEach((attachment) => attachmentService.deleteLocal(attachment));
+      return purged;
+    });
+  }
+
+  // Convert or drop response values that don't match their task's type
+  async repairTypeMismatches(members: FamilyMember[]): Promise<void> {
+    await this.rewriteLocalMonths((data) => repairTypeMismatches(data, members));
+  }
+
+  // Everything stored on this device, for export
+  async exportAllData(): Promise<{ settings: AppSettings | null; months: MonthlyEntries[] }> {
+    const settings = await this.readLocalSettings();
+    const keys = await AsyncStorage.getAllKeys();
+    const months: MonthlyEntries[] = [];
+    for (const key of keys.filter((k) => k.startsWith(ENTRIES_KEY_PREFIX))) {
+      const data = await this.readLocalMonth(key.slice(ENTRIES_KEY_PREFIX.length));
+      if (data) {
+        months.push(data);
+      }
+    }
+    return { settings, months };
+  }
+
+  // Files of the attachments in these months, for an export. Files this device doesn't
+  // have yet are downloaded first; ones that can't be fetched are left out.
+  async exportAttachmentFiles(months: MonthlyEntries[]): Promise<ArchivedAttachment[]> {
+    const files: ArchivedAttachment[] = [];
+    for (const data of months) {
+      for (const attachment of collectAttachments(data)) {
+        if (attachment.removedAt) continue;
+        try {
+          if (await this.downloadAttachment(attachment)) {
+            files.push({ id: attachment.id, kind: attachment.kind, data: await attachmentService.readBase64(attachment) });
+          }
+        } catch (error) {
+          console.error('Failed to export attachment:', error);
         }
       }
-    } catch (error) {
-      console.error('Sync from cloud failed:', error);
-      throw error;
+    }
+    return files;
+  }
+
+  // Write imported data: 'merge' combines it with what's here, 'replace' deletes existing data first
+  async importAllData(
+    settings: AppSettings | null,
+    months: MonthlyEntries[],
+    attachments: ArchivedAttachment[],
+    mode: ImportMode
+  ): Promise<void> {
+    // Attachment files the imported months still reference survive a replace, so
+    // archives exported without their files keep working
+    if (mode === 'replace') {
+      const keepIds = new Set(months.flatMap((data) => collectAttachments(data).map((attachment) => attachment.id)));
+      await this.deleteJournalData(keepIds);
+    }
+
+    // Restore files before the months, so syncing the months uploads them
+    for (const attachment of attachments) {
+      if (!attachmentService.hasLocalFile(attachment)) {
+        await attachmentService.writeBase64(attachment, attachment.data);
+      }
+    }
+
+    const localSettings = mode === 'merge' ? await this.readLocalSettings() : null;
+    const mergedSettings = mergeSettingsForImport(localSettings, settings);
+    if (mergedSettings) {
+      await this.saveSettings(mergedSettings);
+    }
+
+    for (const data of months) {
+      const localData = mode === 'merge' ? await this.readLocalMonth(data.month) : null;
+      await this.saveMonthlyEntries(localData ? mergeMonthlyEntries(localData, data) : data);
+    }
+  }
+
+  // Delete journal data locally (including pending uploads) and from the remote backup,
+  // keeping the local files of the attachments in `keepAttachmentIds`
+  private async deleteJournalData(keepAttachmentIds?: Set<string>): Promise<void> {
+    this.uploadTimers.forEach(({ timer }) => clearTimeout(timer));
+    this.uploadTimers.clear();
+    await syncQueue.clear();
+    attachmentService.deleteAllLocal(keepAttachmentIds);
+    const keys = await AsyncStorage.getAllKeys();
+    const appKeys = keys.filter(
+      (k) =>
+        k === SETTINGS_KEY ||
+        k.startsWith(ENTRIES_KEY_PREFIX) ||
+        k.startsWith(SYNC_CURSOR_KEY_PREFIX) ||
+        k.startsWith(QUARANTINE_KEY_PREFIX)
+    );
+    if (appKeys.length > 0) {
+      await AsyncStorage.multiRemove(appKeys);
+    }
+
+    if (this.isOnline) {
+      const remoteSuccess = await this.backend.deleteAll();
+      if (!remoteSuccess) {
+        throw new Error('Failed to delete data from remote backup');
+      }
     }
   }
 
@@ -147,25 +712,8 @@ class StorageService {
       // 1. Cancel all scheduled notifications
       await Notifications.cancelAllScheduledNotificationsAsync();
 
-      // 2. Clear local storage
-      const keys = await AsyncStorage.getAllKeys();
-      const appKeys = keys.filter(
-        (k) => k === 'app_settings' || k.startsWith('entries_')
-      );
-      if (appKeys.length > 0) {
-        await AsyncStorage.multiRemove(appKeys);
-      }
-
-      // 3. Delete Google Drive folder if online
-      if (this.isOnline) {
-        const driveSuccess = await googleDriveService.deleteAppFolder();
-        if (!driveSuccess) {
-          return {
-            success: false,
-            error: 'Failed to delete data from Google Drive',
-          };
-        }
-      }
+      // 2. Clear local storage and the remote backup
+      await this.deleteJournalData();
 
       return { success: true };
     } catch (error) {
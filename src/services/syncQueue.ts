@@ -0,0 +1,215 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AttachmentKind } from '../types';
+
+const QUEUE_KEY = 'sync_queue';
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+// A Drive file that still needs uploading; the content is read from local storage at upload time.
+// A removed attachment's remote copy is deleted instead.
+export type PendingUploadTarget =
+  | { type: 'settings' }
+  | { type: 'month'; month: string }
+  | { type: 'attachment'; id: string; kind: AttachmentKind; mimeType: string; removed: boolean };
+
+export interface PendingUpload {
+  id: string; // one entry per Drive file, so repeated writes coalesce
+  target: PendingUploadTarget;
+  attempts: number;
+  nextAttemptAt: number; // epoch ms
+  lastError: string | null;
+}
+
+type UploadProcessor = (target: PendingUploadTarget) => Promise<void>;
+type QueueListener = (pendingCount: number) => void;
+
+export const getTargetId = (target: PendingUploadTarget): string => {
+  switch (target.type) {
+    case 'settings':
+      return 'settings';
+    case 'month':
+      return `month:${target.month}`;
+    case 'attachment':
+      return `attachment:${target.id}`;
+  }
+};
+
+const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+class SyncQueue {
+  private items: PendingUpload[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private currentPass: Promise<void> | null = null;
+  private nextPass: { force: boolean } | null = null; // requested while a pass was running
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private processor: UploadProcessor | null = null;
+  private listeners = new Set<QueueListener>();
+
+  setProcessor(processor: UploadProcessor) {
+    this.processor = processor;
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    listener(this.items.length);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getPendingCount(): number {
+    return this.items.length;
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(QUEUE_KEY);
+          if (stored) {
+            this.items = JSON.parse(stored);
+            this.notify();
+          }
+        } catch (error) {
+          console.error('Failed to load sync queue:', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(this.items));
+    } catch (error) {
+      console.error('Failed to save sync queue:', error);
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener(this.items.length));
+  }
+
+  // Queue an upload after a failed attempt; a file already in the queue keeps its backoff
+  async enqueue(target: PendingUploadTarget, error?: unknown): Promise<void> {
+    await this.ensureLoaded();
+
+    const id = getTargetId(target);
+    const lastError = error instanceof Error ? error.message : error ? String(error) : null;
+    const existing = this.items.find((item) => item.id === id);
+
+    if (existing) {
+      existing.target = target;
+      existing.lastError = lastError ?? existing.lastError;
+    } else {
+      this.items.push({
+        id,
+        target,
+        attempts: 1,
+        nextAttemptAt: Date.now() + getRetryDelay(1),
+        lastError,
+      });
+    }
+
+    await this.persist();
+    this.notify();
+    this.scheduleRetry();
+  }
+
+  async isPending(target: PendingUploadTarget): Promise<boolean> {
+    await this.ensureLoaded();
+    const id = getTargetId(target);
+    return this.items.some((item) => item.id === id);
+  }
+
+  // Drop a queued upload that has since succeeded through another path
+  async remove(target: PendingUploadTarget): Promise<void> {
+    await this.ensureLoaded();
+
+    const id = getTargetId(target);
+    if (!this.items.some((item) => item.id === id)) return;
+
+    this.items = this.items.filter((item) => item.id !== id);
+    await this.persist();
+    this.notify();
+  }
+
+  // Upload everything that is due; `force` ignores backoff (e.g. when coming back online).
+  // While a pass is running, another one (forced if any caller asked) runs right after it,
+  // so a forced retry and items queued in the meantime don't wait for the backoff timer.
+  async process(force: boolean = false): Promise<void> {
+    await this.ensureLoaded();
+    if (!this.processor) return;
+
+    if (this.currentPass) {
+      this.nextPass = { force: force || !!this.nextPass?.force };
+      return this.currentPass;
+    }
+    this.currentPass = this.runPasses(force);
+    return this.currentPass;
+  }
+
+  private async runPasses(force: boolean): Promise<void> {
+    try {
+      let pass: { force: boolean } | null = { force };
+      while (pass) {
+        this.nextPass = null;
+        await this.runPass(pass.force);
+        pass = this.nextPass;
+      }
+    } finally {
+      this.currentPass = null;
+      this.nextPass = null;
+      this.scheduleRetry();
+    }
+  }
+
+  private async runPass(force: boolean): Promise<void> {
+    if (!this.processor) return;
+
+    const now = Date.now();
+    const due = this.items.filter((item) => force || item.nextAttemptAt <= now);
+
+    for (const item of due) {
+      try {
+        await this.processor(item.target);
+        this.items = this.items.filter((i) => i.id !== item.id);
+      } catch (error) {
+        item.attempts += 1;
+        item.nextAttemptAt = Date.now() + getRetryDelay(item.attempts);
+        item.lastError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    await this.persist();
+    this.notify();
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.items.length === 0) return;
+
+    const nextAttemptAt = Math.min(...this.items.map((item) => item.nextAttemptAt));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.process();
+    }, Math.max(nextAttemptAt - Date.now(), 0));
+  }
+
+  async clear(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.items = [];
+    this.loadPromise = Promise.resolve();
+    await AsyncStorage.removeItem(QUEUE_KEY);
+    this.notify();
+  }
+}
+
+export const syncQueue = new SyncQueue();
@@ -0,0 +1,186 @@
+import { AppSettings, MonthlyEntries, WebDavConfig } from '../types';
+import { AttachmentFile, RemoteBackend, RemoteChanges } from './remoteBackend';
+import { encryptionService } from './encryption';
+
+const APP_FOLDER_NAME = 'OurJournal';
+
+interface MonthFileInfo {
+  month: string;
+  etag: string;
+}
+
+class WebDavService implements RemoteBackend {
+  readonly id = 'webdav' as const;
+  private config: WebDavConfig | null = null;
+  private foldersReady: boolean = false;
+
+  setConfig(config: WebDavConfig | null) {
+    this.config = config;
+    this.foldersReady = false;
+  }
+
+  isConfigured(): boolean {
+    return !!this.config?.url;
+  }
+
+  private getUrl(path: string): string {
+    if (!this.config) {
+      throw new Error('WebDAV server not configured');
+    }
+    return `${this.config.url.replace(/\/+$/, '')}/${APP_FOLDER_NAME}${path}`;
+  }
+
+  // Non-2xx statuses listed in `allowedStatuses` are returned instead of thrown
+  private async request(
+    method: string,
+    path: string,
+    options: { body?: string; headers?: Record<string, string> } = {},
+    allowedStatuses: number[] = [404]
+  ): Promise<Response> {
+    if (!this.config) {
+      throw new Error('WebDAV server not configured');
+    }
+
+    const credentials = btoa(`${this.config.username}:${this.config.password}`);
+    const response = await fetch(this.getUrl(path), {
+      method,
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        ...options.headers,
+      },
+      body: options.body,
+    });
+
+    if (!response.ok && !allowedStatuses.includes(response.status)) {
+      throw new Error(`WebDAV ${method} failed: HTTP ${response.status}`);
+    }
+
+    return response;
+  }
+
+  private async ensureFolders(): Promise<void> {
+    if (this.foldersReady) return;
+
+    // 405 Method Not Allowed means the collection already exists
+    await this.request('MKCOL', '/', {}, [405]);
+    await this.request('MKCOL', '/entries/', {}, [405]);
+    await this.request('MKCOL', '/attachments/', {}, [405]);
+    this.foldersReady = true;
+  }
+
+  private async putJson(path: string, data: unknown): Promise<void> {
+    await this.ensureFolders();
+    await this.request('PUT', path, {
+      headers: { 'Content-Type': 'application/json' },
+      body: await encryptionService.seal(JSON.stringify(data)),
+    });
+  }
+
+  private async getJson<T>(path: string): Promise<T | null> {
+    const response = await this.request('GET', path);
+    if (response.status === 404) {
+      return null;
+    }
+    return encryptionService.open<T>(await response.text());
+  }
+
+  // List month files with their ETags; returns an empty list when the folder doesn't exist yet
+  private async listMonthFiles(): Promise<MonthFileInfo[]> {
+    const response = await this.request('PROPFIND', '/entries/', {
+      headers: { Depth: '1', 'Content-Type': 'application/xml' },
+      body: '<?xml version="1.0"?><d:propfind xmlns:d="DAV:"><d:prop><d:getetag/></d:prop></d:propfind>',
+    });
+    if (response.status === 404) {
+      return [];
+    }
+
+    // Namespace prefixes vary between servers (d:, D:, none)
+    const xml = await response.text();
+    const blocks = xml.match(/<(?:\w+:)?response[\s>][\s\S]*?<\/(?:\w+:)?response>/g) || [];
+    return blocks
+      .map((block) => {
+        const href = block.match(/<(?:\w+:)?href>([^<]+)<\/(?:\w+:)?href>/)?.[1] || '';
+        const etag = block.match(/<(?:\w+:)?getetag>([^<]*)<\/(?:\w+:)?getetag>/)?.[1] || '';
+        const name = decodeURIComponent(href).split('/').pop() || '';
+        return { month: name.replace('.json', ''), etag };
+      })
+      .filter((file) => /^\d{4}-\d{2}$/.test(file.month));
+  }
+
+  // Public API
+
+  async testConnection(): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.ensureFolders();
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async saveSettings(settings: AppSettings): Promise<void> {
+    await this.putJson('/settings.json', settings);
+  }
+
+  async loadSettings(): Promise<AppSettings | null> {
+    return this.getJson<AppSettings>('/settings.json');
+  }
+
+  async saveMonthlyEntries(data: MonthlyEntries): Promise<void> {
+    await this.putJson(`/entries/${data.month}.json`, data);
+  }
+
+  async loadMonthlyEntries(month: string): Promise<MonthlyEntries | null> {
+    return this.getJson<MonthlyEntries>(`/entries/${month}.json`);
+  }
+
+  async saveAttachment(id: string, file: AttachmentFile): Promise<void> {
+    await this.putJson(`/attachments/${id}.json`, file);
+  }
+
+  async loadAttachment(id: string): Promise<AttachmentFile | null> {
+    return this.getJson<AttachmentFile>(`/attachments/${id}.json`);
+  }
+
+  // Deleting a file that is already gone succeeds
+  async deleteAttachment(id: string): Promise<void> {
+    await this.request('DELETE', `/attachments/${id}.json`);
+  }
+
+  async listMonthlyEntryFiles(): Promise<string[]> {
+    const files = await this.listMonthFiles();
+    return files.map((file) => file.month);
+  }
+
+  // The cursor is the month -> ETag map from the previous sync
+  async getChangedMonths(cursor: string | null): Promise<RemoteChanges> {
+    const files = await this.listMonthFiles();
+    const etags: Record<string, string> = {};
+    files.forEach((file) => {
+      etags[file.month] = file.etag;
+    });
+
+    const previous: Record<string, string> | null = cursor ? JSON.parse(cursor) : null;
+    const months = previous
+      ? files.filter((file) => !file.etag || previous[file.month] !== file.etag).map((file) => file.month)
+      : null;
+
+    return { months, cursor: JSON.stringify(etags) };
+  }
+
+  async deleteAll(): Promise<boolean> {
+    try {
+      await this.request('DELETE', '/');
+      this.foldersReady = false;
+      return true;
+    } catch (error) {
+      console.error('Failed to delete app folder from WebDAV:', error);
+      return false;
+    }
+  }
+}
+
+export const webDavService = new WebDavService();
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import * as SecureStore from 'expo-secure-store';
 import { AuthState } from '../types';
+import { validateAuthState } from '../utils/validation';
 
 interface AuthStore extends AuthState {
   setAuth: (auth: Partial<AuthState>) => void;
@@ -15,9 +16,9 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
   isAuthenticated: false,
   isGuest: false,
   accessToken: null,
-  refreshToken: null,
   userEmail: null,
   userName: null,
+  sessionExpired: false,
 
   setAuth: (auth) => {
     set((state) => ({ ...state, ...auth }));
@@ -29,9 +30,9 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
       isAuthenticated: false,
       isGuest: false,
       accessToken: null,
-      refreshToken: null,
       userEmail: null,
       userName: null,
+      sessionExpired: false,
     });
     await SecureStore.deleteItemAsync(STORAGE_KEY);
   },
@@ -40,8 +41,13 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
     try {
       const stored = await SecureStore.getItemAsync(STORAGE_KEY);
       if (stored) {
-        const parsed = JSON.parse(stored);
-        set(parsed);
+        const { value, issues } = validateAuthState(JSON.parse(stored));
+        if (issues.length > 0) {
+          console.warn('Repaired stored auth state:', issues);
+        }
+        if (value) {
+          set(value);
+        }
       }
     } catch (error) {
       console.error('Failed to load auth state:', error);
@@ -55,9 +61,9 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
         isAuthenticated: state.isAuthenticated,
         isGuest: state.isGuest,
         accessToken: state.accessToken,
-        refreshToken: state.refreshToken,
         userEmail: state.userEmail,
         userName: state.userName,
+        sessionExpired: state.sessionExpired,
       };
       await SecureStore.setItemAsync(STORAGE_KEY, JSON.stringify(toStore));
     } catch (error) {
@@ -0,0 +1,121 @@
+import { create } from 'zustand';
+import * as SecureStore from 'expo-secure-store';
+import { BackendType, WebDavConfig } from '../types';
+import { storageService } from '../services/storage';
+import { googleDriveService } from '../services/googleDrive';
+import { webDavService } from '../services/webdav';
+import { encryptionService } from '../services/encryption';
+import { validateWebDavConfig } from '../utils/validation';
+
+interface BackupStore {
+  backendType: BackendType;
+  webdavConfig: WebDavConfig | null;
+  encryptionEnabled: boolean;
+
+  // Backend selection
+  setBackendType: (type: BackendType) => Promise<void>;
+  setWebDavConfig: (config: WebDavConfig | null) => Promise<void>;
+
+  // End-to-end encryption (the derived key lives in SecureStore via encryptionService)
+  setEncryptionPassphrase: (passphrase: string) => Promise<void>; // enable or change, re-encrypting remote data
+  unlockEncryption: (passphrase: string) => Promise<void>; // join a family that already encrypts its backup
+  disableEncryption: () => Promise<void>;
+
+  // Persistence
+  loadBackupConfig: () => Promise<void>;
+
+  // Reset
+  resetStore: () => Promise<void>;
+}
+
+// Stored in SecureStore because the WebDAV password lives here
+const STORAGE_KEY = 'backup_config';
+
+// Point StorageService at the selected backend
+const applyBackend = (type: BackendType, config: WebDavConfig | null) => {
+  webDavService.setConfig(config);
+  storageService.setBackend(type === 'webdav' ? webDavService : googleDriveService);
+};
+
+export const useBackupStore = create<BackupStore>((set, get) => {
+  const saveConfig = async () => {
+    try {
+      const { backendType, webdavConfig } = get();
+      await SecureStore.setItemAsync(STORAGE_KEY, JSON.stringify({ backendType, webdavConfig }));
+    } catch (error) {
+      console.error('Failed to save backup config:', error);
+    }
+  };
+
+  return {
+    backendType: 'googleDrive',
+    webdavConfig: null,
+    encryptionEnabled: false,
+
+    setBackendType: async (type) => {
+      set({ backendType: type });
+      applyBackend(type, get().webdavConfig);
+      await saveConfig();
+    },
+
+    setWebDavConfig: async (config) => {
+      set({ webdavConfig: config });
+      applyBackend(get().backendType, config);
+      await saveConfig();
+    },
+
+    setEncryptionPassphrase: async (passphrase) => {
+      await storageService.reencryptRemoteData(() => encryptionService.setPassphrase(passphrase));
+      set({ encryptionEnabled: true });
+    },
+
+    unlockEncryption: async (passphrase) => {
+      await encryptionService.unlock(passphrase);
+      await storageService.verifyRemoteAccess();
+
+      // The passphrase is only kept once it has decrypted a real file
+      if (!(await encryptionService.isEnabled())) {
+        await encryptionService.disable();
+        throw new Error('No encrypted backup was found to unlock');
+      }
+      set({ encryptionEnabled: true });
+
+      // Uploads refused while the passphrase was missing can go through now
+      storageService.processPendingUploads();
+    },
+
+    disableEncryption: async () => {
+      await storageService.reencryptRemoteData(() => encryptionService.disable());
+      set({ encryptionEnabled: false });
+    },
+
+    loadBackupConfig: async () => {
+      try {
+        const stored = await SecureStore.getItemAsync(STORAGE_KEY);
+        if (stored) {
+          const parsed = JSON.parse(stored);
+          const webdav = parsed.webdavConfig ? validateWebDavConfig(parsed.webdavConfig) : null;
+          if (webdav && webdav.issues.length > 0) {
+            console.warn('Repaired stored WebDAV config:', webdav.issues);
+          }
+          set({
+            backendType: parsed.backendType === 'webdav' ? 'webdav' : 'googleDrive',
+            webdavConfig: webdav?.value ?? null,
+          });
+        }
+      } catch (error) {
+        console.error('Failed to load backup config:', error);
+      }
+
+      const { backendType, webdavConfig } = get();
+      applyBackend(backendType, webdavConfig);
+      set({ encryptionEnabled: await encryptionService.isEnabled() });
+    },
+
+    resetStore: async () => {
+      set({ backendType: 'googleDrive', webdavConfig: null });
+      applyBackend('googleDrive', null);
+      await SecureStore.deleteItemAsync(STORAGE_KEY);
+    },
+  };
+});
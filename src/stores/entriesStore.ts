@@ -1,11 +1,31 @@
 import { create } from 'zustand';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { format, parseISO } from 'date-fns';
-import { DailyEntry, SectionEntry, TaskResponse, MonthlyEntries } from '../types';
+import * as Crypto from 'expo-crypto';
+import Constants from 'expo-constants';
+import {
+  DailyEntry,
+  SectionEntry,
+  TaskResponse,
+  MonthlyEntries,
+  HistoryTarget,
+  FamilyMember,
+  EntryChange,
+  MonthLoadStatus,
+  MonthWindow,
+  Attachment,
+} from '../types';
+import { storageService } from '../services/storage';
+import { attachmentService } from '../services/attachments';
+import { ENTRIES_SCHEMA_VERSION } from '../utils/migrations';
+import { mergeChangeLogs, mergeDailyEntries } from '../utils/mergeUtils';
+import { purgeChangeLog, purgeDailyEntry } from '../utils/historyUtils';
+import { useUndoStore } from './undoStore';
+import { useAuthStore } from './authStore';
 
 interface EntriesStore {
   entries: Map<string, DailyEntry>; // key: "memberId_date"
-  isLoading: boolean;
+  changeLogs: Map<string, EntryChange[]>; // key: month, see MonthlyEntries.changeLog
+  monthStatus: Record<string, MonthLoadStatus>; // key: month
   currentDate: string; // ISO date string
 
   // Navigation
@@ -19,18 +39,29 @@ interface EntriesStore {
     date: string,
     sectionId: string,
     taskId: string,
-    value: boolean | string | number
+    value: TaskResponse['value']
   ) => void;
+  removeTaskResponse: (memberId: string, date: string, sectionId: string, taskId: string) => void;
   updateSectionNotes: (
     memberId: string,
     date: string,
     sectionId: string,
     notes: string
   ) => void;
+  addAttachment: (memberId: string, date: string, sectionId: string, attachment: Attachment) => void;
+  removeAttachment: (memberId: string, date: string, sectionId: string, attachment: Attachment) => void; // also deletes the local file
 
-  // Persistence
-  loadEntriesForMonth: (month: string) => Promise<void>;
-  saveEntriesToStorage: () => Promise<void>;
+  // Persistence - a month is read once and kept until evicted; `force` re-reads it
+  loadEntriesForMonth: (month: string, options?: { force?: boolean }) => Promise<void>;
+  loadMonthWindow: (window: MonthWindow, months: string[]) => Promise<void>; // load what a screen shows, keeping it in memory
+  refreshMonths: () => Promise<void>; // re-read every month in memory after a sync or import
+  evictInactiveMonths: () => void; // drop least recently used months no screen is showing
+  saveEntriesToStorage: () => Promise<void>; // writes dirty months now, skipping the debounce
+  purgeHistory: (targets: HistoryTarget[]) => Promise<void>; // erase deleted members', sections' or tasks' entries
+  repairTypeMismatches: (members: FamilyMember[]) => Promise<void>; // fix values that don't match Task.type
+
+  // Change log - who edited a day's answers and notes, newest first
+  getChangesForDay: (memberId: string, date: string) => EntryChange[];
 
   // For dashboard - get entries for date range
   getEntriesForRange: (memberId: string, startDate: string, endDate: string) => DailyEntry[];
@@ -42,15 +73,129 @@ interface EntriesStore {
 const getMonthKey = (date: string) => format(parseISO(date), 'yyyy-MM');
 const getEntryKey = (memberId: string, date: string) => `${memberId}_${date}`;
 
+const SAVE_DEBOUNCE_MS = 500;
+
+// Months outside every screen's window that stay in memory, least recently used evicted first
+const MAX_INACTIVE_MONTHS = 3;
+
+// Typing into the same field within this window updates one change instead of adding more
+const CHANGE_MERGE_MS = 5 * 60 * 1000;
+
+// Who is editing: the signed-in Google account, otherwise this device
+const getAuthor = () =>
+  useAuthStore.getState().userEmail || Constants.deviceName || 'This device';
+
+/**
+ * Add an edit to a month's change log. Checkbox taps are always logged on
+ * their own so every check and uncheck shows who made it.
+ */
+const appendChange = (
+  changeLog: EntryChange[],
+  change: Omit<EntryChange, 'id' | 'author' | 'timestamp'>,
+  timestamp: string
+): EntryChange[] => {
+  const author = getAuthor();
+  const last = [...changeLog]
+    .reverse()
+    .find(
+      (c) =>
+        c.memberId === change.memberId &&
+        c.date === change.date &&
+        c.sectionId === change.sectionId &&
+        c.taskId === change.taskId
+    );
+  const mergeable =
+    last &&
+    last.author === author &&
+    typeof change.value !== 'boolean' &&
+    Date.parse(timestamp) - Date.parse(last.timestamp) < CHANGE_MERGE_MS;
+
+  if (mergeable) {
+    return [...changeLog.filter((c) => c.id !== last.id), { ...last, ...change, timestamp }];
+  }
+  return [...changeLog, { id: Crypto.randomUUID(), ...change, author, timestamp }];
+};
+
+const withChange = (
+  changeLogs: Map<string, EntryChange[]>,
+  change: Omit<EntryChange, 'id' | 'author' | 'timestamp'>,
+  timestamp: string
+): Map<string, EntryChange[]> => {
+  const month = getMonthKey(change.date);
+  return new Map(changeLogs).set(month, appendChange(changeLogs.get(month) || [], change, timestamp));
+};
+
+/**
+ * Apply a change to one section of a day, creating the day or section if needed
+ */
+const updateSectionEntry = (
+  existingEntry: DailyEntry | undefined,
+  memberId: string,
+  date: string,
+  sectionId: string,
+  update: (sectionEntry: SectionEntry) => SectionEntry,
+  now: string
+): DailyEntry => {
+  const emptySection: SectionEntry = { sectionId, taskResponses: [], notes: '' };
+  const sectionEntries = existingEntry?.sectionEntries || [];
+  const sectionExists = sectionEntries.some((se) => se.sectionId === sectionId);
+
+  return {
+    date,
+    memberId,
+    ...existingEntry,
+    sectionEntries: sectionExists
+      ? sectionEntries.map((se) => (se.sectionId === sectionId ? update(se) : se))
+      : [...sectionEntries, update(emptySection)],
+    lastModified: now,
+  };
+};
+
+// Months edited since they were last written, and the pending debounced write
+const dirtyMonths = new Set<string>();
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Edits made to each month so far, so a load can tell whether one happened while it ran
+const monthEdits = new Map<string, number>();
+
+// Months each screen is showing, loads in flight, and months in order of last use (oldest first)
+const monthWindows = new Map<MonthWindow, string[]>();
+const pendingLoads = new Map<string, Promise<void>>();
+const recentMonths = new Set<string>();
+
+const touchMonth = (month: string) => {
+  recentMonths.delete(month);
+  recentMonths.add(month);
+};
+
+const cancelScheduledSave = () => {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+};
+
+// Coalesce bursts of edits (typing notes, tapping tasks) into one write per month
+const markDirty = (month: string, save: () => Promise<void>) => {
+  dirtyMonths.add(month);
+  monthEdits.set(month, (monthEdits.get(month) || 0) + 1);
+  cancelScheduledSave();
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    save();
+  }, SAVE_DEBOUNCE_MS);
+};
+
 export const useEntriesStore = create<EntriesStore>((set, get) => ({
   entries: new Map(),
-  isLoading: false,
+  changeLogs: new Map(),
+  monthStatus: {},
   currentDate: format(new Date(), 'yyyy-MM-dd'),
 
   setCurrentDate: (date) => {
     set({ currentDate: date });
     // Load entries for the new month if needed
-    get().loadEntriesForMonth(getMonthKey(date));
+    get().loadMonthWindow('journal', [getMonthKey(date)]);
   },
 
   getEntry: (memberId, date) => {
@@ -64,12 +209,18 @@ export const useEntriesStore = create<EntriesStore>((set, get) => ({
       newEntries.set(key, { ...entry, lastModified: new Date().toISOString() });
       return { entries: newEntries };
     });
-    get().saveEntriesToStorage();
+
+    markDirty(getMonthKey(entry.date), get().saveEntriesToStorage);
   },
 
   updateTaskResponse: (memberId, date, sectionId, taskId, value) => {
     const key = getEntryKey(memberId, date);
     const existingEntry = get().entries.get(key);
+    const now = new Date().toISOString();
+    const response: TaskResponse = { taskId, value, lastModified: now };
+    set((state) => ({
+      changeLogs: withChange(state.changeLogs, { memberId, date, sectionId, taskId, value }, now),
+    }));
 
     if (existingEntry) {
       // Update existing entry
@@ -80,13 +231,17 @@ export const useEntriesStore = create<EntriesStore>((set, get) => ({
             return {
               ...se,
               taskResponses: se.taskResponses.map((tr) =>
-                tr.taskId === taskId ? { ...tr, value } : tr
+                tr.taskId === taskId ? response : tr
               ),
             };
           } else {
+            // Answering again supersedes an earlier removal
+            const { clearedResponses = [], ...rest } = se;
+            const stillCleared = clearedResponses.filter((c) => c.taskId !== taskId);
             return {
-              ...se,
-              taskResponses: [...se.taskResponses, { taskId, value }],
+              ...rest,
+              taskResponses: [...se.taskResponses, response],
+              ...(stillCleared.length > 0 ? { clearedResponses: stillCleared } : {}),
             };
           }
         }
@@ -100,7 +255,7 @@ export const useEntriesStore = create<EntriesStore>((set, get) => ({
       if (!sectionExists) {
         updatedSectionEntries.push({
           sectionId,
-          taskResponses: [{ taskId, value }],
+          taskResponses: [response],
           notes: '',
         });
       }
@@ -108,7 +263,7 @@ export const useEntriesStore = create<EntriesStore>((set, get) => ({
       const updatedEntry: DailyEntry = {
         ...existingEntry,
         sectionEntries: updatedSectionEntries,
-        lastModified: new Date().toISOString(),
+        lastModified: now,
       };
       get().setEntry(updatedEntry);
     } else {
@@ -119,19 +274,51 @@ export const useEntriesStore = create<EntriesStore>((set, get) => ({
         sectionEntries: [
           {
             sectionId,
-            taskResponses: [{ taskId, value }],
+            taskResponses: [response],
             notes: '',
           },
         ],
-        lastModified: new Date().toISOString(),
+        lastModified: now,
       };
       get().setEntry(newEntry);
     }
   },
 
+  // The response is replaced by a cleared marker so the removal syncs
+  removeTaskResponse: (memberId, date, sectionId, taskId) => {
+    const existingEntry = get().entries.get(getEntryKey(memberId, date));
+    if (!existingEntry) return;
+
+    const now = new Date().toISOString();
+    set((state) => ({
+      changeLogs: withChange(state.changeLogs, { memberId, date, sectionId, taskId, value: undefined }, now),
+    }));
+    get().setEntry(
+      updateSectionEntry(
+        existingEntry,
+        memberId,
+        date,
+        sectionId,
+        (se) => ({
+          ...se,
+          taskResponses: se.taskResponses.filter((tr) => tr.taskId !== taskId),
+          clearedResponses: [
+            ...(se.clearedResponses || []).filter((c) => c.taskId !== taskId),
+            { taskId, clearedAt: now },
+          ],
+        }),
+        now
+      )
+    );
+  },
+
   updateSectionNotes: (memberId, date, sectionId, notes) => {
     const key = getEntryKey(memberId, date);
     const existingEntry = get().entries.get(key);
+    const now = new Date().toISOString();
+    set((state) => ({
+      changeLogs: withChange(state.changeLogs, { memberId, date, sectionId }, now),
+    }));
 
     if (existingEntry) {
       const sectionExists = existingEntry.sectionEntries.some(
@@ -141,89 +328,272 @@ export const useEntriesStore = create<EntriesStore>((set, get) => ({
       let updatedSectionEntries: SectionEntry[];
       if (sectionExists) {
         updatedSectionEntries = existingEntry.sectionEntries.map((se) =>
-          se.sectionId === sectionId ? { ...se, notes } : se
+          se.sectionId === sectionId ? { ...se, notes, notesModified: now } : se
         );
       } else {
         updatedSectionEntries = [
           ...existingEntry.sectionEntries,
-          { sectionId, taskResponses: [], notes },
+          { sectionId, taskResponses: [], notes, notesModified: now },
         ];
       }
 
       const updatedEntry: DailyEntry = {
         ...existingEntry,
         sectionEntries: updatedSectionEntries,
-        lastModified: new Date().toISOString(),
+        lastModified: now,
       };
       get().setEntry(updatedEntry);
     } else {
       const newEntry: DailyEntry = {
         date,
         memberId,
-        sectionEntries: [{ sectionId, taskResponses: [], notes }],
-        lastModified: new Date().toISOString(),
+        sectionEntries: [{ sectionId, taskResponses: [], notes, notesModified: now }],
+        lastModified: now,
       };
       get().setEntry(newEntry);
     }
   },
 
-  loadEntriesForMonth: async (month) => {
+  addAttachment: (memberId, date, sectionId, attachment) => {
+    const existingEntry = get().entries.get(getEntryKey(memberId, date));
+    const now = new Date().toISOString();
+    get().setEntry(
+      updateSectionEntry(
+        existingEntry,
+        memberId,
+        date,
+        sectionId,
+        (se) => ({ ...se, attachments: [...(se.attachments || []), attachment] }),
+        now
+      )
+    );
+  },
+
+  // Removed attachments stay in the entry with removedAt set, so the removal syncs
+  removeAttachment: (memberId, date, sectionId, removed) => {
+    const existingEntry = get().entries.get(getEntryKey(memberId, date));
+    if (!existingEntry) return;
+
+    const now = new Date().toISOString();
+    get().setEntry(
+      updateSectionEntry(
+        existingEntry,
+        memberId,
+        date,
+        sectionId,
+        (se) => ({
+          ...se,
+          attachments: (se.attachments || []).map((attachment) =>
+            attachment.id === removed.id ? { ...attachment, removedAt: now } : attachment
+          ),
+        }),
+        now
+      )
+    );
+
     try {
-      set({ isLoading: true });
-      const storageKey = `entries_${month}`;
-      const stored = await AsyncStorage.getItem(storageKey);
+      attachmentService.deleteLocal(removed);
+    } catch (error) {
+      console.error('Failed to delete attachment file:', error);
+    }
+  },
+
+  loadEntriesForMonth: async (month, options) => {
+    touchMonth(month);
+    const pending = pendingLoads.get(month);
+    if (pending) {
+      await pending;
+      if (!options?.force) return;
+    } else if (!options?.force && get().monthStatus[month] === 'loaded') {
+      return;
+    }
+
+    const load = (async () => {
+      // A month being re-read keeps showing its current entries
+      set((state) => ({
+        monthStatus: { ...state.monthStatus, [month]: state.monthStatus[month] === 'loaded' ? 'loaded' : 'loading' },
+      }));
+
+      try {
+        // Write unsaved edits first so the loaded copy doesn't overwrite them
+        if (dirtyMonths.has(month)) {
+          await get().saveEntriesToStorage();
+        }
+
+        const editsBefore = monthEdits.get(month);
+        const monthlyData = await storageService.loadMonthlyEntries(month);
 
-      if (stored) {
-        const monthlyData: MonthlyEntries = JSON.parse(stored);
+        // Loading can take a round trip to the backup. Edits made meanwhile are newer than the
+        // loaded copy, so it is merged into memory instead of replacing them, and saved again.
+        const stale = monthEdits.get(month) !== editsBefore;
         set((state) => {
           const newEntries = new Map(state.entries);
-          monthlyData.entries.forEach((entry) => {
-            newEntries.set(getEntryKey(entry.memberId, entry.date), entry);
+          monthlyData?.entries.forEach((entry) => {
+            const key = getEntryKey(entry.memberId, entry.date);
+            const current = newEntries.get(key);
+            newEntries.set(key, stale && current ? mergeDailyEntries(current, entry) : entry);
           });
-          return { entries: newEntries, isLoading: false };
+          const loadedLog = monthlyData?.changeLog || [];
+          const changeLogs = new Map(state.changeLogs).set(
+            month,
+            stale ? mergeChangeLogs(state.changeLogs.get(month) || [], loadedLog) : loadedLog
+          );
+          return {
+            entries: newEntries,
+            changeLogs,
+            monthStatus: { ...state.monthStatus, [month]: 'loaded' },
+          };
         });
-      } else {
-        set({ isLoading: false });
+        if (stale) {
+          markDirty(month, get().saveEntriesToStorage);
+        }
+      } catch (error) {
+        console.error('Failed to load entries:', error);
+        set((state) => ({
+          monthStatus: { ...state.monthStatus, [month]: state.monthStatus[month] === 'loaded' ? 'loaded' : 'error' },
+        }));
       }
-    } catch (error) {
-      console.error('Failed to load entries:', error);
-      set({ isLoading: false });
+    })();
+
+    pendingLoads.set(month, load);
+    try {
+      await load;
+    } finally {
+      pendingLoads.delete(month);
     }
+    get().evictInactiveMonths();
+  },
+
+  loadMonthWindow: async (window, months) => {
+    monthWindows.set(window, months);
+    await Promise.all(months.map((month) => get().loadEntriesForMonth(month)));
+    // A window that shrank leaves months behind even when nothing new was read
+    get().evictInactiveMonths();
+  },
+
+  refreshMonths: async () => {
+    const months = new Set(Object.keys(get().monthStatus));
+    monthWindows.forEach((windowMonths) => windowMonths.forEach((month) => months.add(month)));
+    await Promise.all(Array.from(months).map((month) => get().loadEntriesForMonth(month, { force: true })));
+  },
+
+  evictInactiveMonths: () => {
+    const { monthStatus } = get();
+    const active = new Set<string>();
+    monthWindows.forEach((windowMonths) => windowMonths.forEach((month) => active.add(month)));
+
+    // Unsaved and loading months stay; recentMonths is oldest first
+    const inactive = Array.from(recentMonths).filter(
+      (month) =>
+        !active.has(month) &&
+        monthStatus[month] !== undefined &&
+        !dirtyMonths.has(month) &&
+        !pendingLoads.has(month)
+    );
+    const evicted = new Set(inactive.slice(0, Math.max(0, inactive.length - MAX_INACTIVE_MONTHS)));
+    if (evicted.size === 0) return;
+
+    evicted.forEach((month) => recentMonths.delete(month));
+    set((state) => {
+      const newEntries = new Map<string, DailyEntry>();
+      state.entries.forEach((entry, key) => {
+        if (!evicted.has(getMonthKey(entry.date))) newEntries.set(key, entry);
+      });
+      const changeLogs = new Map(state.changeLogs);
+      const newStatus = { ...state.monthStatus };
+      evicted.forEach((month) => {
+        changeLogs.delete(month);
+        delete newStatus[month];
+      });
+      return { entries: newEntries, changeLogs, monthStatus: newStatus };
+    });
   },
 
   saveEntriesToStorage: async () => {
+    cancelScheduledSave();
+    if (dirtyMonths.size === 0) return;
+
+    const months = Array.from(dirtyMonths);
+    dirtyMonths.clear();
+
     try {
-      const entries = get().entries;
+      const { entries, changeLogs, monthStatus } = get();
 
-      // Group entries by month
-      const byMonth = new Map<string, DailyEntry[]>();
+      // Group entries of the dirty months only
+      const byMonth = new Map<string, DailyEntry[]>(months.map((month) => [month, []]));
       entries.forEach((entry) => {
-        const month = getMonthKey(entry.date);
-        if (!byMonth.has(month)) {
-          byMonth.set(month, []);
-        }
-        byMonth.get(month)!.push(entry);
+        byMonth.get(getMonthKey(entry.date))?.push(entry);
       });
 
       // Save each month's data
       const savePromises: Promise<void>[] = [];
       byMonth.forEach((monthEntries, month) => {
+        const changeLog = changeLogs.get(month) || [];
         const monthlyData: MonthlyEntries = {
+          schemaVersion: ENTRIES_SCHEMA_VERSION,
           month,
           entries: monthEntries,
+          ...(changeLog.length > 0 ? { changeLog } : {}),
           lastModified: new Date().toISOString(),
         };
+        // Only a fully loaded month can replace the stored copy
         savePromises.push(
-          AsyncStorage.setItem(`entries_${month}`, JSON.stringify(monthlyData))
+          monthStatus[month] === 'loaded'
+            ? storageService.saveMonthlyEntries(monthlyData)
+            : storageService.mergeIntoMonthlyEntries(monthlyData)
         );
       });
 
       await Promise.all(savePromises);
     } catch (error) {
       console.error('Failed to save entries:', error);
+      // Keep the months dirty so the next save retries them
+      months.forEach((month) => dirtyMonths.add(month));
     }
   },
 
+  purgeHistory: async (targets) => {
+    await get().saveEntriesToStorage();
+    // Undoing an earlier edit would write purged answers back
+    useUndoStore.getState().clear('journal');
+
+    set((state) => {
+      const newEntries = new Map<string, DailyEntry>();
+      state.entries.forEach((entry, key) => {
+        const purged = purgeDailyEntry(entry, targets);
+        if (purged) newEntries.set(key, purged);
+      });
+      const changeLogs = new Map<string, EntryChange[]>();
+      state.changeLogs.forEach((changeLog, month) => changeLogs.set(month, purgeChangeLog(changeLog, targets)));
+      return { entries: newEntries, changeLogs };
+    });
+
+    try {
+      await storageService.purgeHistory(targets);
+    } catch (error) {
+      console.error('Failed to purge history:', error);
+    }
+  },
+
+  repairTypeMismatches: async (members) => {
+    await get().saveEntriesToStorage();
+
+    try {
+      await storageService.repairTypeMismatches(members);
+
+      // Reload the months in memory so they show the repaired values
+      await get().refreshMonths();
+    } catch (error) {
+      console.error('Failed to repair entries:', error);
+    }
+  },
+
+  getChangesForDay: (memberId, date) => {
+    return (get().changeLogs.get(getMonthKey(date)) || [])
+      .filter((change) => change.memberId === memberId && change.date === date)
+      .reverse();
+  },
+
   getEntriesForRange: (memberId, startDate, endDate) => {
     const entries = get().entries;
     const result: DailyEntry[] = [];
@@ -242,9 +612,15 @@ export const useEntriesStore = create<EntriesStore>((set, get) => ({
   },
 
   resetStore: () => {
+    cancelScheduledSave();
+    dirtyMonths.clear();
+    monthEdits.clear();
+    recentMonths.clear();
+    useUndoStore.getState().clear('journal');
     set({
       entries: new Map(),
-      isLoading: false,
+      changeLogs: new Map(),
+      monthStatus: {},
       currentDate: format(new Date(), 'yyyy-MM-dd'),
     });
   },
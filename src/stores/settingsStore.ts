@@ -1,31 +1,97 @@
 import { create } from 'zustand';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Crypto from 'expo-crypto';
-import { FamilyMember, Section, Task, TaskType, AppSettings, TaskSchedule, TaskReminder } from '../types';
+import { FamilyMember, Section, Task, TaskType, AppSettings, TaskSchedule, TaskReminder, TaskScale, TaskChoice, HistoryTarget, IntegrityIssue, MonthlyEntries } from '../types';
 import { notificationService } from '../services/notificationService';
+import { storageService } from '../services/storage';
+import { SETTINGS_SCHEMA_VERSION } from '../utils/migrations';
+import { isHistoryPurged } from '../utils/historyUtils';
+import { reattachOrphans } from '../utils/integrityUtils';
+import { useUndoStore } from './undoStore';
 
 const generateId = () => Crypto.randomUUID();
 
+// Archive (stamp archivedAt) or restore a member, section or task
+const withArchived = <T extends { archivedAt?: string }>(item: T, archived: boolean): T => {
+  const { archivedAt, ...rest } = item;
+  return (archived ? { ...rest, archivedAt: archivedAt || new Date().toISOString() } : rest) as T;
+};
+
+const recordPurge = (purgedHistory: HistoryTarget[], target: HistoryTarget): HistoryTarget[] =>
+  isHistoryPurged(target, purgedHistory) ? purgedHistory : [...purgedHistory, target];
+
+// The part of the settings an undo step restores
+type ConfigSnapshot = Pick<SettingsStore, 'members' | 'purgedHistory'>;
+
+const takeSnapshot = (): ConfigSnapshot => {
+  const { members, purgedHistory } = useSettingsStore.getState();
+  return { members, purgedHistory };
+};
+
+const restoreSnapshot = (snapshot: ConfigSnapshot) => {
+  useSettingsStore.setState({ ...snapshot, lastModified: new Date().toISOString() });
+  const store = useSettingsStore.getState();
+  store.saveSettings();
+  store.syncNotifications();
+};
+
+// Put the change made since `before` on the undo stack
+const recordChange = (label: string, before: ConfigSnapshot) => {
+  const after = takeSnapshot();
+  if (after.members === before.members && after.purgedHistory === before.purgedHistory) return;
+  useUndoStore.getState().record({
+    scope: 'settings',
+    label,
+    undo: () => restoreSnapshot(before),
+    redo: () => restoreSnapshot(after),
+  });
+};
+
+// Purges erase entries for good, so earlier steps must not bring their configuration back;
+// replaced settings (imports, resets, synced changes) clear the stack too
+const clearUndoHistory = () => useUndoStore.getState().clear('settings');
+
+const findMember = (memberId: string) =>
+  useSettingsStore.getState().members.find((m) => m.id === memberId);
+
+const findSection = (memberId: string, sectionId: string) =>
+  findMember(memberId)?.sections.find((s) => s.id === sectionId);
+
+const findTask = (memberId: string, sectionId: string, taskId: string) =>
+  findSection(memberId, sectionId)?.tasks.find((t) => t.id === taskId);
+
 interface SettingsStore {
   members: FamilyMember[];
+  purgedHistory: HistoryTarget[];
   isLoading: boolean;
   lastModified: string | null;
 
+  // Archiving hides an item from the journal and reminders but keeps its history.
+  // Deleting removes it for good and records its history as purged; call
+  // entriesStore.purgeHistory with the same target to erase the entries.
+  // Every change except purges can be undone through undoStore.
+
   // Member operations
   addMember: (name: string, color: string) => void;
   updateMember: (id: string, updates: Partial<Pick<FamilyMember, 'name' | 'color'>>) => void;
+  setMemberArchived: (id: string, archived: boolean) => void;
   deleteMember: (id: string) => void;
 
   // Section operations
   addSection: (memberId: string, name: string) => void;
   updateSection: (memberId: string, sectionId: string, name: string) => void;
+  setSectionArchived: (memberId: string, sectionId: string, archived: boolean) => void;
   deleteSection: (memberId: string, sectionId: string) => void;
 
   // Task operations
-  addTask: (memberId: string, sectionId: string, name: string, type: TaskType, unit?: string, schedule?: TaskSchedule, reminder?: TaskReminder) => void;
-  updateTask: (memberId: string, sectionId: string, taskId: string, updates: Partial<Pick<Task, 'name' | 'type' | 'unit' | 'schedule' | 'reminder'>>) => void;
+  addTask: (memberId: string, sectionId: string, name: string, type: TaskType, unit?: string, schedule?: TaskSchedule, reminder?: TaskReminder, scale?: TaskScale, choice?: TaskChoice) => void;
+  updateTask: (memberId: string, sectionId: string, taskId: string, updates: Partial<Pick<Task, 'name' | 'type' | 'unit' | 'scale' | 'choice' | 'schedule' | 'reminder'>>) => void;
+  setTaskArchived: (memberId: string, sectionId: string, taskId: string, archived: boolean) => void;
   deleteTask: (memberId: string, sectionId: string, taskId: string) => void;
 
+  // Integrity repairs (see src/utils/integrityUtils.ts)
+  recordPurgedHistory: (targets: HistoryTarget[]) => void; // orphaned data has no config left to delete
+  reattachOrphans: (months: MonthlyEntries[], issues: IntegrityIssue[]) => void;
+
   // Notification sync
   syncNotifications: () => Promise<void>;
 
@@ -39,14 +105,14 @@ interface SettingsStore {
   resetStore: () => void;
 }
 
-const STORAGE_KEY = 'app_settings';
-
 export const useSettingsStore = create<SettingsStore>((set, get) => ({
   members: [],
+  purgedHistory: [],
   isLoading: true,
   lastModified: null,
 
   addMember: (name, color) => {
+    const before = takeSnapshot();
     const newMember: FamilyMember = {
       id: generateId(),
       name,
@@ -57,28 +123,49 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
       members: [...state.members, newMember],
       lastModified: new Date().toISOString(),
     }));
+    recordChange(`Added ${name}`, before);
     get().saveSettings();
   },
 
   updateMember: (id, updates) => {
+    const before = takeSnapshot();
+    const member = findMember(id);
     set((state) => ({
       members: state.members.map((m) =>
         m.id === id ? { ...m, ...updates } : m
       ),
       lastModified: new Date().toISOString(),
     }));
+    recordChange(`Edited ${member?.name}`, before);
     get().saveSettings();
   },
 
+  setMemberArchived: (id, archived) => {
+    const before = takeSnapshot();
+    const member = findMember(id);
+    set((state) => ({
+      members: state.members.map((m) =>
+        m.id === id ? withArchived(m, archived) : m
+      ),
+      lastModified: new Date().toISOString(),
+    }));
+    recordChange(`${archived ? 'Archived' : 'Restored'} ${member?.name}`, before);
+    get().saveSettings();
+    get().syncNotifications();
+  },
+
   deleteMember: (id) => {
     set((state) => ({
       members: state.members.filter((m) => m.id !== id),
+      purgedHistory: recordPurge(state.purgedHistory, { memberId: id }),
       lastModified: new Date().toISOString(),
     }));
+    clearUndoHistory();
     get().saveSettings();
   },
 
   addSection: (memberId, name) => {
+    const before = takeSnapshot();
     const newSection: Section = {
       id: generateId(),
       name,
@@ -92,10 +179,13 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
       ),
       lastModified: new Date().toISOString(),
     }));
+    recordChange(`Added section "${name}"`, before);
     get().saveSettings();
   },
 
   updateSection: (memberId, sectionId, name) => {
+    const before = takeSnapshot();
+    const section = findSection(memberId, sectionId);
     set((state) => ({
       members: state.members.map((m) =>
         m.id === memberId
@@ -109,9 +199,31 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
       ),
       lastModified: new Date().toISOString(),
     }));
+    recordChange(`Renamed section "${section?.name}"`, before);
     get().saveSettings();
   },
 
+  setSectionArchived: (memberId, sectionId, archived) => {
+    const before = takeSnapshot();
+    const section = findSection(memberId, sectionId);
+    set((state) => ({
+      members: state.members.map((m) =>
+        m.id === memberId
+          ? {
+              ...m,
+              sections: m.sections.map((s) =>
+                s.id === sectionId ? withArchived(s, archived) : s
+              ),
+            }
+          : m
+      ),
+      lastModified: new Date().toISOString(),
+    }));
+    recordChange(`${archived ? 'Archived' : 'Restored'} section "${section?.name}"`, before);
+    get().saveSettings();
+    get().syncNotifications();
+  },
+
   deleteSection: (memberId, sectionId) => {
     set((state) => ({
       members: state.members.map((m) =>
@@ -119,17 +231,22 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
           ? { ...m, sections: m.sections.filter((s) => s.id !== sectionId) }
           : m
       ),
+      purgedHistory: recordPurge(state.purgedHistory, { memberId, sectionId }),
       lastModified: new Date().toISOString(),
     }));
+    clearUndoHistory();
     get().saveSettings();
   },
 
-  addTask: (memberId, sectionId, name, type, unit, schedule, reminder) => {
+  addTask: (memberId, sectionId, name, type, unit, schedule, reminder, scale, choice) => {
+    const before = takeSnapshot();
     const newTask: Task = {
       id: generateId(),
       name,
       type,
       unit,
+      scale,
+      choice,
       schedule,
       reminder,
     };
@@ -148,11 +265,14 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
       ),
       lastModified: new Date().toISOString(),
     }));
+    recordChange(`Added task "${name}"`, before);
     get().saveSettings();
     get().syncNotifications();
   },
 
   updateTask: (memberId, sectionId, taskId, updates) => {
+    const before = takeSnapshot();
+    const task = findTask(memberId, sectionId, taskId);
     set((state) => ({
       members: state.members.map((m) =>
         m.id === memberId
@@ -173,6 +293,35 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
       ),
       lastModified: new Date().toISOString(),
     }));
+    recordChange(`Edited task "${task?.name}"`, before);
+    get().saveSettings();
+    get().syncNotifications();
+  },
+
+  setTaskArchived: (memberId, sectionId, taskId, archived) => {
+    const before = takeSnapshot();
+    const task = findTask(memberId, sectionId, taskId);
+    set((state) => ({
+      members: state.members.map((m) =>
+        m.id === memberId
+          ? {
+              ...m,
+              sections: m.sections.map((s) =>
+                s.id === sectionId
+                  ? {
+                      ...s,
+                      tasks: s.tasks.map((t) =>
+                        t.id === taskId ? withArchived(t, archived) : t
+                      ),
+                    }
+                  : s
+              ),
+            }
+          : m
+      ),
+      lastModified: new Date().toISOString(),
+    }));
+    recordChange(`${archived ? 'Archived' : 'Restored'} task "${task?.name}"`, before);
     get().saveSettings();
     get().syncNotifications();
   },
@@ -193,8 +342,29 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
             }
           : m
       ),
+      purgedHistory: recordPurge(state.purgedHistory, { memberId, sectionId, taskId }),
+      lastModified: new Date().toISOString(),
+    }));
+    clearUndoHistory();
+    get().saveSettings();
+  },
+
+  recordPurgedHistory: (targets) => {
+    set((state) => ({
+      purgedHistory: targets.reduce(recordPurge, state.purgedHistory),
+      lastModified: new Date().toISOString(),
+    }));
+    clearUndoHistory();
+    get().saveSettings();
+  },
+
+  reattachOrphans: (months, issues) => {
+    const before = takeSnapshot();
+    set((state) => ({
+      members: reattachOrphans(state.members, months, issues),
       lastModified: new Date().toISOString(),
     }));
+    recordChange('Reattached orphaned entries', before);
     get().saveSettings();
   },
 
@@ -206,11 +376,19 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
   loadSettings: async () => {
     try {
       set({ isLoading: true });
-      const stored = await AsyncStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const settings: AppSettings = JSON.parse(stored);
+      const settings = await storageService.loadSettings();
+      if (settings) {
+        // Undo steps would overwrite whatever a sync brought in
+        const { members, purgedHistory } = get();
+        if (
+          JSON.stringify(settings.members) !== JSON.stringify(members) ||
+          JSON.stringify(settings.purgedHistory || []) !== JSON.stringify(purgedHistory)
+        ) {
+          clearUndoHistory();
+        }
         set({
           members: settings.members,
+          purgedHistory: settings.purgedHistory || [],
           lastModified: settings.lastModified,
           isLoading: false,
         });
@@ -227,18 +405,22 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
     try {
       const state = get();
       const settings: AppSettings = {
+        schemaVersion: SETTINGS_SCHEMA_VERSION,
         members: state.members,
+        ...(state.purgedHistory.length > 0 ? { purgedHistory: state.purgedHistory } : {}),
         lastModified: state.lastModified || new Date().toISOString(),
       };
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+      await storageService.saveSettings(settings);
     } catch (error) {
       console.error('Failed to save settings:', error);
     }
   },
 
   importSettings: (settings) => {
+    clearUndoHistory();
     set({
       members: settings.members,
+      purgedHistory: settings.purgedHistory || [],
       lastModified: settings.lastModified,
     });
     get().saveSettings();
@@ -248,14 +430,18 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
   exportSettings: () => {
     const state = get();
     return {
+      schemaVersion: SETTINGS_SCHEMA_VERSION,
       members: state.members,
+      ...(state.purgedHistory.length > 0 ? { purgedHistory: state.purgedHistory } : {}),
       lastModified: state.lastModified || new Date().toISOString(),
     };
   },
 
   resetStore: () => {
+    clearUndoHistory();
     set({
       members: [],
+      purgedHistory: [],
       isLoading: false,
       lastModified: null,
     });
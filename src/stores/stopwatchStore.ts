@@ -0,0 +1,87 @@
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Stopwatch } from '../types';
+import { getStopwatchKey, getStopwatchSeconds } from '../utils/durationUtils';
+import { validateStopwatchState } from '../utils/validation';
+
+type StopwatchTarget = Pick<Stopwatch, 'memberId' | 'date' | 'sectionId' | 'taskId'>;
+
+interface StopwatchStore {
+  stopwatches: Record<string, Stopwatch>; // keyed by getStopwatchKey
+
+  // Controls (callers save the returned total to the task response)
+  start: (target: StopwatchTarget, baseSeconds: number) => void; // start or resume from the saved total
+  pause: (key: string) => number;
+  stop: (key: string) => number;
+
+  // Persistence
+  loadStopwatches: () => Promise<void>;
+
+  // Reset
+  resetStore: () => void;
+}
+
+const STORAGE_KEY = 'stopwatch_state';
+
+// Start times are stored rather than ticking counters, so stopwatches keep
+// running while the app is backgrounded or closed
+const saveStopwatches = (stopwatches: Record<string, Stopwatch>) => {
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify({ stopwatches: Object.values(stopwatches) })).catch(
+    (error) => console.error('Failed to save stopwatches:', error)
+  );
+};
+
+export const useStopwatchStore = create<StopwatchStore>((set, get) => ({
+  stopwatches: {},
+
+  start: (target, baseSeconds) => {
+    const key = getStopwatchKey(target.memberId, target.date, target.sectionId, target.taskId);
+    const stopwatches = {
+      ...get().stopwatches,
+      [key]: { ...target, startedAt: new Date().toISOString(), baseSeconds },
+    };
+    set({ stopwatches });
+    saveStopwatches(stopwatches);
+  },
+
+  pause: (key) => {
+    const stopwatch = get().stopwatches[key];
+    if (!stopwatch) return 0;
+
+    const total = getStopwatchSeconds(stopwatch);
+    const stopwatches = { ...get().stopwatches, [key]: { ...stopwatch, startedAt: null, baseSeconds: total } };
+    set({ stopwatches });
+    saveStopwatches(stopwatches);
+    return total;
+  },
+
+  stop: (key) => {
+    const { [key]: stopwatch, ...stopwatches } = get().stopwatches;
+    if (!stopwatch) return 0;
+
+    set({ stopwatches });
+    saveStopwatches(stopwatches);
+    return getStopwatchSeconds(stopwatch);
+  },
+
+  loadStopwatches: async () => {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const { value } = validateStopwatchState(JSON.parse(stored));
+        const stopwatches: Record<string, Stopwatch> = {};
+        value?.stopwatches.forEach((stopwatch) => {
+          stopwatches[getStopwatchKey(stopwatch.memberId, stopwatch.date, stopwatch.sectionId, stopwatch.taskId)] = stopwatch;
+        });
+        set({ stopwatches });
+      }
+    } catch (error) {
+      console.error('Failed to load stopwatches:', error);
+    }
+  },
+
+  resetStore: () => {
+    set({ stopwatches: {} });
+    AsyncStorage.removeItem(STORAGE_KEY);
+  },
+}));
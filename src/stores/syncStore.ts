@@ -0,0 +1,117 @@
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SyncState } from '../types';
+import { storageService } from '../services/storage';
+import { useSettingsStore } from './settingsStore';
+import { useEntriesStore } from './entriesStore';
+import { validateSyncState } from '../utils/validation';
+
+interface SyncStore extends SyncState {
+  pendingUploads: number;
+  syncQueued: boolean; // "Sync now" was pressed during another sync and runs once it finishes
+
+  // Updates from StorageService / the upload queue
+  updateSyncState: (updates: Partial<SyncState>) => void;
+  setPendingUploads: (count: number) => void;
+
+  // Full two-way sync triggered by the user; waits for a running sync rather than overlapping it
+  syncNow: () => Promise<void>;
+
+  // Persistence
+  loadSyncState: () => Promise<void>;
+
+  // Reset
+  resetStore: () => void;
+}
+
+const STORAGE_KEY = 'sync_state';
+
+// The manual sync waiting for the running one to finish; presses meanwhile share it
+let queuedSync: Promise<void> | null = null;
+
+const whenIdle = (): Promise<void> =>
+  new Promise((resolve) => {
+    if (!useSyncStore.getState().isSyncing) {
+      resolve();
+      return;
+    }
+    const unsubscribe = useSyncStore.subscribe((state) => {
+      if (!state.isSyncing) {
+        unsubscribe();
+        resolve();
+      }
+    });
+  });
+
+export const useSyncStore = create<SyncStore>((set, get) => ({
+  lastSyncTime: null,
+  isSyncing: false,
+  syncError: null,
+  passphraseRequired: false,
+  pendingUploads: 0,
+  syncQueued: false,
+
+  updateSyncState: (updates) => {
+    const previousSyncTime = get().lastSyncTime;
+    set(updates);
+
+    // Only the last successful sync time survives restarts
+    if (updates.lastSyncTime && updates.lastSyncTime !== previousSyncTime) {
+      AsyncStorage.setItem(STORAGE_KEY, JSON.stringify({ lastSyncTime: updates.lastSyncTime })).catch(
+        (error) => console.error('Failed to save sync state:', error)
+      );
+    }
+  },
+
+  setPendingUploads: (count) => {
+    set({ pendingUploads: count });
+  },
+
+  syncNow: async () => {
+    if (get().isSyncing) {
+      if (!queuedSync) {
+        set({ syncQueued: true });
+        queuedSync = whenIdle().then(() => {
+          queuedSync = null;
+          set({ syncQueued: false });
+          return get().syncNow();
+        });
+      }
+      return queuedSync;
+    }
+
+    try {
+      await storageService.syncNow();
+
+      // Refresh in-memory data with whatever came down from Drive
+      await useSettingsStore.getState().loadSettings();
+      await useEntriesStore.getState().refreshMonths();
+    } catch (error) {
+      console.error('Sync now failed:', error);
+      set({ syncError: error instanceof Error ? error.message : 'Unknown sync error' });
+    }
+  },
+
+  loadSyncState: async () => {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        const { value } = validateSyncState(JSON.parse(stored));
+        set({ lastSyncTime: value?.lastSyncTime ?? null });
+      }
+    } catch (error) {
+      console.error('Failed to load sync state:', error);
+    }
+  },
+
+  resetStore: () => {
+    set({
+      lastSyncTime: null,
+      isSyncing: false,
+      syncError: null,
+      passphraseRequired: false,
+      syncQueued: false,
+    });
+    AsyncStorage.removeItem(STORAGE_KEY);
+  },
+}));
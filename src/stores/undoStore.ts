@@ -0,0 +1,145 @@
+import { create } from 'zustand';
+
+export type UndoScope = 'journal' | 'settings';
+
+export interface UndoAction {
+  id: string;
+  scope: UndoScope;
+  label: string; // e.g. 'Checked "Brush teeth"'
+  key?: string; // consecutive edits with the same key (typing into one field) become one step
+  createdAt: string;
+  undo: () => void;
+  redo: () => void;
+}
+
+// What the snackbar offers after an action, an undo or a redo
+interface UndoNotice {
+  actionId: string;
+  message: string;
+  kind: 'undo' | 'redo';
+}
+
+interface UndoStore {
+  past: UndoAction[]; // oldest first
+  future: UndoAction[]; // next redo first
+  notice: UndoNotice | null;
+
+  // Recording (changes are applied by the caller; the action only knows how to revert and reapply them)
+  record: (action: Omit<UndoAction, 'id' | 'createdAt'>) => void;
+  clear: (scope?: UndoScope) => void;
+
+  // Undo/redo
+  undo: () => void;
+  redo: () => void;
+  undoTo: (id: string) => void; // undo steps back to and including this one
+  redoTo: (id: string) => void; // redo steps up to and including this one
+
+  // Snackbar
+  dismissNotice: () => void;
+}
+
+const MAX_UNDO_STEPS = 50;
+
+let nextId = 0;
+
+export const useUndoStore = create<UndoStore>((set, get) => ({
+  past: [],
+  future: [],
+  notice: null,
+
+  record: (action) => {
+    const { past, future } = get();
+    const now = new Date().toISOString();
+    const last = past[past.length - 1];
+
+    // Keep the first undo and the latest redo of a run of edits to the same field
+    if (action.key && last?.key === action.key && future.length === 0) {
+      set({
+        past: [...past.slice(0, -1), { ...last, label: action.label, redo: action.redo, createdAt: now }],
+      });
+      return;
+    }
+
+    const step: UndoAction = { ...action, id: String(++nextId), createdAt: now };
+    set({
+      past: [...past, step].slice(-MAX_UNDO_STEPS),
+      future: [],
+      notice: { actionId: step.id, message: step.label, kind: 'undo' },
+    });
+  },
+
+  clear: (scope) => {
+    set((state) => {
+      const keep = (action: UndoAction) => scope !== undefined && action.scope !== scope;
+      const past = state.past.filter(keep);
+      const future = state.future.filter(keep);
+      const noticeKept = [...past, ...future].some((action) => action.id === state.notice?.actionId);
+      return { past, future, notice: noticeKept ? state.notice : null };
+    });
+  },
+
+  undo: () => {
+    const { past } = get();
+    if (past.length > 0) {
+      get().undoTo(past[past.length - 1].id);
+    }
+  },
+
+  redo: () => {
+    const { future } = get();
+    if (future.length > 0) {
+      get().redoTo(future[0].id);
+    }
+  },
+
+  undoTo: (id) => {
+    const past = [...get().past];
+    const target = past.find((action) => action.id === id);
+    if (!target) return;
+
+    // Undo newest first; the step undone last is the next one to redo
+    const undone: UndoAction[] = [];
+    while (past.length > 0 && undone[0]?.id !== id) {
+      const action = past.pop()!;
+      try {
+        action.undo();
+      } catch (error) {
+        console.error('Failed to undo change:', error);
+      }
+      undone.unshift(action);
+    }
+
+    set((state) => ({
+      past,
+      future: [...undone, ...state.future],
+      notice: { actionId: id, message: `Undid: ${target.label}`, kind: 'redo' },
+    }));
+  },
+
+  redoTo: (id) => {
+    const future = [...get().future];
+    const target = future.find((action) => action.id === id);
+    if (!target) return;
+
+    const redone: UndoAction[] = [];
+    while (future.length > 0 && redone[redone.length - 1]?.id !== id) {
+      const action = future.shift()!;
+      try {
+        action.redo();
+      } catch (error) {
+        console.error('Failed to redo change:', error);
+      }
+      redone.push(action);
+    }
+
+    set((state) => ({
+      past: [...state.past, ...redone],
+      future,
+      notice: { actionId: id, message: `Redid: ${target.label}`, kind: 'undo' },
+    }));
+  },
+
+  dismissNotice: () => {
+    set({ notice: null });
+  },
+}));
@@ -4,6 +4,7 @@ export interface FamilyMember {
   name: string;
   color: string; // hex color for UI theming
   sections: Section[];
+  archivedAt?: string; // ISO timestamp; archived members are hidden from the journal but keep their history
 }
 
 // Section within a family member's journal
@@ -11,10 +12,11 @@ export interface Section {
   id: string;
   name: string;
   tasks: Task[];
+  archivedAt?: string; // ISO timestamp; see FamilyMember.archivedAt
 }
 
 // Task types for daily tracking
-export type TaskType = 'checkbox' | 'text' | 'numeric';
+export type TaskType = 'checkbox' | 'text' | 'numeric' | 'scale' | 'duration' | 'choice'; // duration values are seconds, choice values option IDs
 
 // Day of week (0 = Sunday, 6 = Saturday)
 export type DayOfWeek = 0 | 1 | 2 | 3 | 4 | 5 | 6;
@@ -25,6 +27,25 @@ export interface TaskSchedule {
   days: DayOfWeek[]; // Days when task is visible (empty = daily/all days)
 }
 
+// Range for scale tasks (e.g. mood 1-5), with an optional label or emoji per step
+export interface TaskScale {
+  min: number;
+  max: number;
+  labels?: string[]; // one per step from min to max; empty strings show the number
+}
+
+// An answer offered by a choice task; answers store its ID so renaming keeps history
+export interface ChoiceOption {
+  id: string;
+  label: string;
+}
+
+// Options for choice tasks (e.g. "Which chores did you do?")
+export interface TaskChoice {
+  options: ChoiceOption[];
+  multiple: boolean; // pick any number of options instead of one
+}
+
 // Reminder configuration for a task
 export interface TaskReminder {
   enabled: boolean;
@@ -37,8 +58,11 @@ export interface Task {
   name: string;
   type: TaskType;
   unit?: string; // for numeric tasks (e.g., "minutes", "glasses", "pages")
+  scale?: TaskScale; // for scale tasks
+  choice?: TaskChoice; // for choice tasks
   schedule?: TaskSchedule; // Optional schedule for task visibility
   reminder?: TaskReminder; // Optional reminder notification
+  archivedAt?: string; // ISO timestamp; see FamilyMember.archivedAt
 }
 
 // Daily entry for a family member
@@ -54,35 +78,166 @@ export interface SectionEntry {
   sectionId: string;
   taskResponses: TaskResponse[];
   notes: string; // free-form text for the section
+  notesModified?: string; // ISO timestamp of the last notes edit
+  attachments?: Attachment[]; // oldest first, including removed ones
+  clearedResponses?: ClearedResponse[]; // answers taken back, kept so the removal syncs
+}
+
+// A task answer that was removed again (e.g. undoing a first answer). Whichever of the
+// removal and an answer on another copy happened last wins when copies are merged.
+export interface ClearedResponse {
+  taskId: string;
+  clearedAt: string; // ISO timestamp
+}
+
+// Kinds of files that can be attached to a section entry
+export type AttachmentKind = 'image' | 'audio';
+
+// A file attached to a section entry. The entry only references it; the file is
+// kept on the device and in the backup's attachments folder under its ID.
+export interface Attachment {
+  id: string;
+  kind: AttachmentKind;
+  mimeType: string;
+  createdAt: string; // ISO timestamp
+  width?: number; // images
+  height?: number;
+  durationMs?: number; // audio
+  removedAt?: string; // ISO timestamp; kept so the removal syncs and other devices delete the file too
+}
+
+// History to erase when purging a member, one of their sections, or a single task
+export interface HistoryTarget {
+  memberId: string;
+  sectionId?: string;
+  taskId?: string;
 }
 
 // Individual task response
 export interface TaskResponse {
   taskId: string;
-  value: boolean | string | number; // type depends on Task.type
+  value: boolean | string | number | string[]; // type depends on Task.type
+  lastModified?: string; // ISO timestamp of the last edit to this response
 }
 
 // App settings stored in Google Drive
 export interface AppSettings {
+  schemaVersion: number; // see src/utils/migrations.ts
   members: FamilyMember[];
+  purgedHistory?: HistoryTarget[]; // erased history, re-applied on sync so other devices' copies don't bring it back
   lastModified: string;
 }
 
+// One edit to a task response or section note, kept for the day's change log
+export interface EntryChange {
+  id: string; // consecutive edits to the same field by the same author share one change
+  memberId: string;
+  date: string;
+  sectionId: string;
+  taskId?: string; // absent for a notes edit
+  value?: TaskResponse['value']; // the task's new value, absent when the answer was removed; notes aren't copied into the log
+  author: string; // signed-in email, or the device name
+  timestamp: string;
+}
+
 // Monthly entries file structure
 export interface MonthlyEntries {
+  schemaVersion: number; // see src/utils/migrations.ts
   month: string; // "2025-12"
   entries: DailyEntry[];
+  changeLog?: EntryChange[]; // oldest first
   lastModified: string;
 }
 
+// Where a month of entries stands in memory; months never requested have no status
+export type MonthLoadStatus = 'loading' | 'loaded' | 'error';
+
+// Screens keeping months in memory while they show them (see entriesStore.loadMonthWindow)
+export type MonthWindow = 'journal' | 'dashboard' | 'memos';
+
+// Full export of the family's data, shared as a single JSON file
+export interface ExportArchive {
+  format: 'our-journal-archive';
+  archiveVersion: number;
+  exportedAt: string; // ISO timestamp
+  settings: AppSettings | null;
+  months: MonthlyEntries[];
+  attachments?: ArchivedAttachment[]; // files of the months' photos and voice memos
+}
+
+// An attachment's file carried in an export archive
+export interface ArchivedAttachment {
+  id: string;
+  kind: AttachmentKind;
+  data: string; // base64
+}
+
+// How an imported archive is applied to existing data
+export type ImportMode = 'merge' | 'replace';
+
+// What importing an archive would change, shown before anything is written
+export interface ImportPreview {
+  exportedAt: string;
+  addedMembers: string[]; // member names
+  updatedMembers: string[];
+  removedMembers: string[]; // only removed when replacing
+  addedMonths: string[]; // "yyyy-MM"
+  changedMonths: string[];
+  removedMonths: string[]; // only removed when replacing
+  entryCount: number;
+}
+
+// Data problems found by the integrity check
+export type IntegrityIssueKind =
+  | 'unknownMember' // entries for a member that isn't configured
+  | 'unknownSection' // section entries for a section the member doesn't have
+  | 'unknownTask' // responses for a task the section doesn't have
+  | 'typeMismatch'; // response values that don't match Task.type
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  memberId: string;
+  sectionId?: string;
+  taskId?: string;
+  count: number; // entries, section entries or responses affected
+  months: string[]; // "yyyy-MM"
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  monthCount: number;
+  entryCount: number;
+  issues: IntegrityIssue[];
+}
+
 // Auth state
 export interface AuthState {
   isAuthenticated: boolean;
   isGuest: boolean;
-  accessToken: string | null;
-  refreshToken: string | null;
+  accessToken: string | null; // renewed by silent sign-in; Google Sign-In keeps the refresh token itself
   userEmail: string | null;
   userName: string | null;
+  sessionExpired: boolean; // Google token could not be refreshed; user must sign in again
+}
+
+// Remote backup destination
+export type BackendType = 'googleDrive' | 'webdav';
+
+// Self-hosted WebDAV server credentials
+export interface WebDavConfig {
+  url: string; // base URL, e.g. "https://cloud.example.com/remote.php/dav/files/me"
+  username: string;
+  password: string;
+}
+
+// Stopwatch of a duration task on one day; kept on the device so it runs across restarts
+export interface Stopwatch {
+  memberId: string;
+  date: string;
+  sectionId: string;
+  taskId: string;
+  startedAt: string | null; // ISO time the current run started; null while paused
+  baseSeconds: number; // seconds counted before the current run
 }
 
 // Sync state
@@ -90,4 +245,5 @@ export interface SyncState {
   lastSyncTime: string | null;
   isSyncing: boolean;
   syncError: string | null;
+  passphraseRequired: boolean; // the backup is encrypted with a passphrase this device doesn't have
 }
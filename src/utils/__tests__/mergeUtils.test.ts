@@ -0,0 +1,244 @@
+import { Attachment, DailyEntry, EntryChange, MonthlyEntries, SectionEntry } from '../../types';
+import { mergeAttachments, mergeChangeLogs, mergeMonthlyEntries, isSameMonthlyData } from '../mergeUtils';
+import { ENTRIES_SCHEMA_VERSION } from '../migrations';
+
+const T1 = '2026-03-01T10:00:00.000Z';
+const T2 = '2026-03-01T11:00:00.000Z';
+const T3 = '2026-03-01T12:00:00.000Z';
+
+const section = (overrides: Partial<SectionEntry> = {}): SectionEntry => ({
+  sectionId: 'morning',
+  taskResponses: [],
+  notes: '',
+  ...overrides,
+});
+
+const day = (sectionEntries: SectionEntry[], lastModified: string, overrides: Partial<DailyEntry> = {}): DailyEntry => ({
+  date: '2026-03-01',
+  memberId: 'alex',
+  sectionEntries,
+  lastModified,
+  ...overrides,
+});
+
+const month = (entries: DailyEntry[], changeLog?: EntryChange[]): MonthlyEntries => ({
+  schemaVersion: ENTRIES_SCHEMA_VERSION,
+  month: '2026-03',
+  entries,
+  ...(changeLog ? { changeLog } : {}),
+  lastModified: entries.reduce((latest, entry) => (entry.lastModified > latest ? entry.lastModified : latest), ''),
+});
+
+const attachment = (id: string, createdAt: string, removedAt?: string): Attachment => ({
+  id,
+  kind: 'image',
+  mimeType: 'image/jpeg',
+  createdAt,
+  ...(removedAt ? { removedAt } : {}),
+});
+
+// Both merge orders, since every device merges its own copy with the other one
+const mergeBothWays = (a: MonthlyEntries, b: MonthlyEntries) => [mergeMonthlyEntries(a, b), mergeMonthlyEntries(b, a)];
+
+const onlySection = (data: MonthlyEntries) => data.entries[0].sectionEntries[0];
+
+describe('mergeMonthlyEntries', () => {
+  it('keeps entries that exist on only one side', () => {
+    const local = month([day([section()], T1, { memberId: 'alex' })]);
+    const remote = month([day([section()], T2, { memberId: 'sam' })]);
+
+    const merged = mergeMonthlyEntries(local, remote);
+
+    expect(merged.entries.map((entry) => entry.memberId)).toEqual(['alex', 'sam']);
+    expect(merged.lastModified).toBe(T2);
+  });
+
+  it('keeps concurrent edits to different tasks of the same day', () => {
+    const local = month([
+      day([section({ taskResponses: [{ taskId: 'teeth', value: true, lastModified: T2 }] })], T2),
+    ]);
+    const remote = month([
+      day([section({ taskResponses: [{ taskId: 'reading', value: 20, lastModified: T3 }] })], T3),
+    ]);
+
+    mergeBothWays(local, remote).forEach((merged) => {
+      expect(onlySection(merged).taskResponses).toEqual([
+        { taskId: 'reading', value: 20, lastModified: T3 },
+        { taskId: 'teeth', value: true, lastModified: T2 },
+      ]);
+    });
+  });
+
+  it('takes the newer answer when both sides edited the same task', () => {
+    const local = month([day([section({ taskResponses: [{ taskId: 'reading', value: 10, lastModified: T3 }] })], T3)]);
+    const remote = month([day([section({ taskResponses: [{ taskId: 'reading', value: 30, lastModified: T2 }] })], T2)]);
+
+    mergeBothWays(local, remote).forEach((merged) => {
+      expect(onlySection(merged).taskResponses).toEqual([{ taskId: 'reading', value: 10, lastModified: T3 }]);
+    });
+  });
+
+  it('breaks a timestamp tie the same way on every device', () => {
+    const local = month([day([section({ taskResponses: [{ taskId: 'reading', value: 10, lastModified: T2 }] })], T2)]);
+    const remote = month([day([section({ taskResponses: [{ taskId: 'reading', value: 30, lastModified: T2 }] })], T2)]);
+
+    const [a, b] = mergeBothWays(local, remote);
+
+    expect(onlySection(a).taskResponses).toEqual(onlySection(b).taskResponses);
+  });
+
+  it('dates responses without their own timestamp by their entry', () => {
+    const local = month([day([section({ taskResponses: [{ taskId: 'reading', value: 10 }] })], T1)]);
+    const remote = month([day([section({ taskResponses: [{ taskId: 'reading', value: 30 }] })], T3)]);
+
+    mergeBothWays(local, remote).forEach((merged) => {
+      expect(onlySection(merged).taskResponses).toEqual([{ taskId: 'reading', value: 30 }]);
+    });
+  });
+
+  it('takes the notes edited last and never lets untouched empty notes win', () => {
+    const edited = month([day([section({ notes: 'Went to the park', notesModified: T2 })], T2)]);
+    const untouched = month([day([section({ notes: '' })], T3)]);
+    const newer = month([day([section({ notes: 'Rainy day', notesModified: T3 })], T3)]);
+
+    mergeBothWays(edited, untouched).forEach((merged) => {
+      expect(onlySection(merged).notes).toBe('Went to the park');
+    });
+    mergeBothWays(edited, newer).forEach((merged) => {
+      expect(onlySection(merged)).toMatchObject({ notes: 'Rainy day', notesModified: T3 });
+    });
+  });
+
+  it('keeps an answer removed unless it was answered again afterwards', () => {
+    const answered = month([day([section({ taskResponses: [{ taskId: 'reading', value: 10, lastModified: T1 }] })], T1)]);
+    const removed = month([day([section({ clearedResponses: [{ taskId: 'reading', clearedAt: T2 }] })], T2)]);
+    const answeredAgain = month([day([section({ taskResponses: [{ taskId: 'reading', value: 5, lastModified: T3 }] })], T3)]);
+
+    mergeBothWays(answered, removed).forEach((merged) => {
+      expect(onlySection(merged).taskResponses).toEqual([]);
+      expect(onlySection(merged).clearedResponses).toEqual([{ taskId: 'reading', clearedAt: T2 }]);
+    });
+    mergeBothWays(removed, answeredAgain).forEach((merged) => {
+      expect(onlySection(merged).taskResponses).toEqual([{ taskId: 'reading', value: 5, lastModified: T3 }]);
+      expect(onlySection(merged).clearedResponses).toBeUndefined();
+    });
+  });
+
+  it('combines both change logs in time order', () => {
+    const change = (id: string, timestamp: string): EntryChange => ({
+      id,
+      memberId: 'alex',
+      date: '2026-03-01',
+      sectionId: 'morning',
+      author: 'alex@example.com',
+      timestamp,
+    });
+    const local = month([day([section()], T1)], [change('a', T1), change('c', T3)]);
+    const remote = month([day([section()], T1)], [change('b', T2)]);
+
+    mergeBothWays(local, remote).forEach((merged) => {
+      expect(merged.changeLog?.map((c) => c.id)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  it('produces the same data whichever side merges', () => {
+    const local = month([
+      day(
+        [
+          section({ sectionId: 'morning', taskResponses: [{ taskId: 'teeth', value: true, lastModified: T1 }], attachments: [attachment('p1', T1)] }),
+          section({ sectionId: 'evening', notes: 'Tired', notesModified: T1 }),
+        ],
+        T1
+      ),
+    ]);
+    const remote = month([
+      day(
+        [
+          section({ sectionId: 'bedtime', taskResponses: [{ taskId: 'story', value: 'Gruffalo', lastModified: T2 }] }),
+          section({
+            sectionId: 'morning',
+            taskResponses: [{ taskId: 'reading', value: 20, lastModified: T2 }],
+            notes: 'Busy',
+            notesModified: T2,
+            attachments: [attachment('p2', T2)],
+            clearedResponses: [{ taskId: 'mood', clearedAt: T2 }, { taskId: 'bed', clearedAt: T2 }],
+          }),
+        ],
+        T2
+      ),
+      day([section()], T2, { memberId: 'sam' }),
+    ]);
+
+    expect(mergeMonthlyEntries(local, remote)).toEqual(mergeMonthlyEntries(remote, local));
+  });
+
+  it('settles once merged, so neither device keeps re-uploading the month', () => {
+    const a = month([
+      day([section({ sectionId: 'morning', taskResponses: [{ taskId: 'teeth', value: true, lastModified: T1 }] })], T1),
+    ]);
+    const b = month([
+      day(
+        [
+          section({ sectionId: 'evening', notes: 'Late', notesModified: T2 }),
+          section({ sectionId: 'morning', taskResponses: [{ taskId: 'reading', value: 20, lastModified: T2 }] }),
+        ],
+        T2
+      ),
+    ]);
+
+    const merged = mergeMonthlyEntries(a, b);
+
+    expect(isSameMonthlyData(mergeMonthlyEntries(b, merged), merged)).toBe(true);
+    expect(isSameMonthlyData(mergeMonthlyEntries(merged, a), merged)).toBe(true);
+  });
+
+  it('keeps the notes timestamp with the notes it was taken from', () => {
+    const local = month([day([section({ notes: 'Same', notesModified: T1 })], T3)]);
+    const remote = month([day([section({ notes: 'Same', notesModified: T2 })], T3)]);
+
+    mergeBothWays(local, remote).forEach((merged) => {
+      expect(onlySection(merged)).toMatchObject({ notes: 'Same', notesModified: T2 });
+    });
+  });
+});
+
+describe('mergeAttachments', () => {
+  it('combines attachments added on either side, oldest first', () => {
+    const merged = mergeAttachments([attachment('b', T2)], [attachment('a', T1), attachment('c', T3)]);
+
+    expect(merged.map((a) => a.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('lets a removal on either side win', () => {
+    const kept = attachment('p1', T1);
+    const removed = attachment('p1', T1, T2);
+
+    expect(mergeAttachments([kept], [removed])).toEqual([removed]);
+    expect(mergeAttachments([removed], [kept])).toEqual([removed]);
+  });
+
+  it('orders attachments created at the same moment by ID', () => {
+    const merged = mergeAttachments([attachment('z', T1)], [attachment('m', T1)]);
+
+    expect(merged.map((a) => a.id)).toEqual(['m', 'z']);
+  });
+});
+
+describe('mergeChangeLogs', () => {
+  it('takes a change updated on both sides from the side that updated it last', () => {
+    const base: EntryChange = {
+      id: 'a',
+      memberId: 'alex',
+      date: '2026-03-01',
+      sectionId: 'morning',
+      taskId: 'reading',
+      value: 10,
+      author: 'alex@example.com',
+      timestamp: T1,
+    };
+
+    const merged = mergeChangeLogs([{ ...base, value: 15, timestamp: T2 }], [{ ...base, value: 20, timestamp: T3 }]);
+
+    expect(merged).toEqual([{ ...base, value: 20, timestamp: T3 }]);
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  ENTRIES_SCHEMA_VERSION,
+  SETTINGS_SCHEMA_VERSION,
+  SchemaError,
+  SchemaVersionError,
+  migrateMonthlyEntries,
+  migrateSettings,
+} from '../migrations';
+
+const T1 = '2026-03-01T10:00:00.000Z';
+const T2 = '2026-03-02T10:00:00.000Z';
+
+describe('migrateSettings', () => {
+  describe('step 1: sections and tasks lists', () => {
+    it('gives members without sections an empty list', () => {
+      const settings = migrateSettings({ members: [{ id: 'alex', name: 'Alex' }], lastModified: T1 });
+
+      expect(settings.schemaVersion).toBe(1);
+      expect(settings.members).toEqual([{ id: 'alex', name: 'Alex', sections: [] }]);
+    });
+
+    it('gives sections without tasks an empty list and keeps existing tasks', () => {
+      const settings = migrateSettings({
+        members: [
+          {
+            id: 'alex',
+            sections: [{ id: 'morning' }, { id: 'evening', tasks: [{ id: 'teeth' }] }],
+          },
+        ],
+      });
+
+      expect(settings.members[0].sections).toEqual([
+        { id: 'morning', tasks: [] },
+        { id: 'evening', tasks: [{ id: 'teeth' }] },
+      ]);
+    });
+
+    it('leaves malformed members for validation to handle', () => {
+      const settings = migrateSettings({ members: ['not a member'] });
+
+      expect(settings.members).toEqual(['not a member']);
+    });
+  });
+
+  it('leaves settings already at the current version unchanged', () => {
+    const current = { schemaVersion: SETTINGS_SCHEMA_VERSION, members: [{ id: 'alex' }], lastModified: T1 };
+
+    expect(migrateSettings(current)).toEqual(current);
+  });
+
+  it('refuses settings saved by a newer version of the app', () => {
+    expect(() => migrateSettings({ schemaVersion: SETTINGS_SCHEMA_VERSION + 1, members: [] })).toThrow(
+      SchemaVersionError
+    );
+  });
+
+  it('rejects data that is not settings', () => {
+    expect(() => migrateSettings('settings')).toThrow(SchemaError);
+    expect(() => migrateSettings({ schemaVersion: 1 })).toThrow(SchemaError);
+  });
+});
+
+describe('migrateMonthlyEntries', () => {
+  describe('step 1: per-response and notes timestamps', () => {
+    it('dates responses and notes by their entry', () => {
+      const data = migrateMonthlyEntries({
+        month: '2026-03',
+        entries: [
+          {
+            date: '2026-03-01',
+            memberId: 'alex',
+            lastModified: T1,
+            sectionEntries: [{ sectionId: 'morning', notes: 'Sunny', taskResponses: [{ taskId: 'teeth', value: true }] }],
+          },
+        ],
+        lastModified: T1,
+      });
+
+      expect(data.schemaVersion).toBe(1);
+      expect(data.entries[0].sectionEntries[0]).toEqual({
+        sectionId: 'morning',
+        notes: 'Sunny',
+        notesModified: T1,
+        taskResponses: [{ taskId: 'teeth', value: true, lastModified: T1 }],
+      });
+    });
+
+    it('keeps timestamps that already exist and leaves empty notes undated', () => {
+      const data = migrateMonthlyEntries({
+        month: '2026-03',
+        entries: [
+          {
+            date: '2026-03-01',
+            memberId: 'alex',
+            lastModified: T2,
+            sectionEntries: [{ sectionId: 'morning', notes: '', taskResponses: [{ taskId: 'teeth', value: true, lastModified: T1 }] }],
+          },
+        ],
+        lastModified: T2,
+      });
+
+      expect(data.entries[0].sectionEntries[0]).toEqual({
+        sectionId: 'morning',
+        notes: '',
+        taskResponses: [{ taskId: 'teeth', value: true, lastModified: T1 }],
+      });
+    });
+  });
+
+  it('leaves a month already at the current version unchanged', () => {
+    const current = { schemaVersion: ENTRIES_SCHEMA_VERSION, month: '2026-03', entries: [], lastModified: T1 };
+
+    expect(migrateMonthlyEntries(current)).toEqual(current);
+  });
+
+  it('refuses a month saved by a newer version of the app', () => {
+    expect(() =>
+      migrateMonthlyEntries({ schemaVersion: ENTRIES_SCHEMA_VERSION + 1, month: '2026-03', entries: [] })
+    ).toThrow(SchemaVersionError);
+  });
+
+  it('rejects data that is not a month file', () => {
+    expect(() => migrateMonthlyEntries(null)).toThrow(SchemaError);
+    expect(() => migrateMonthlyEntries({ entries: [] })).toThrow(SchemaError);
+  });
+});
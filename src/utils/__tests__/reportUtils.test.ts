@@ -0,0 +1,167 @@
+import { DailyEntry, FamilyMember, MonthlyEntries, Task, TaskResponse } from '../../types';
+import { buildMonthlyReportHtml } from '../reportUtils';
+
+const TIMESTAMP = '2026-02-01T20:00:00.000Z';
+
+const task = (id: string, type: Task['type'], overrides: Partial<Task> = {}): Task => ({
+  id,
+  name: id,
+  type,
+  ...overrides,
+});
+
+const member = (tasks: Task[], overrides: Partial<FamilyMember> = {}): FamilyMember => ({
+  id: 'alex',
+  name: 'Alex',
+  color: '#1E88E5',
+  sections: [{ id: 'morning', name: 'Morning', tasks }],
+  ...overrides,
+});
+
+const entry = (
+  date: string,
+  responses: Record<string, TaskResponse['value']>,
+  notes: string = '',
+  memberId: string = 'alex'
+): DailyEntry => ({
+  date,
+  memberId,
+  sectionEntries: [
+    {
+      sectionId: 'morning',
+      taskResponses: Object.entries(responses).map(([taskId, value]) => ({ taskId, value })),
+      notes,
+    },
+  ],
+  lastModified: TIMESTAMP,
+});
+
+const month = (entries: DailyEntry[]): MonthlyEntries => ({
+  schemaVersion: 1,
+  month: '2026-02',
+  entries,
+  lastModified: TIMESTAMP,
+});
+
+// February 2026 starts on a Sunday and has 28 days
+const build = (m: FamilyMember, entries: DailyEntry[], today: string = '2026-02-28') =>
+  buildMonthlyReportHtml(m, month(entries), '2026-02', today);
+
+describe('buildMonthlyReportHtml', () => {
+  it('titles the report with the member and month and counts logged days', () => {
+    const html = build(member([]), [entry('2026-02-01', {}), entry('2026-02-02', {})]);
+
+    expect(html).toContain("<h1>Alex's Journal</h1>");
+    expect(html).toContain('February 2026 · 2 of 28 days logged');
+  });
+
+  it("only reports the member's own entries", () => {
+    const html = build(member([]), [entry('2026-02-01', {}, '', 'sam')]);
+
+    expect(html).toContain('0 of 28 days logged');
+  });
+
+  it('counts completed checkbox tasks as reward coins, leaving out future days', () => {
+    const m = member([task('teeth', 'checkbox')]);
+    const entries = [entry('2026-02-01', { teeth: true }), entry('2026-02-02', { teeth: true }), entry('2026-02-03', { teeth: false })];
+
+    expect(build(m, entries)).toContain('<div class="count">2 / 28</div>');
+    expect(build(m, entries, '2026-02-10')).toContain('<div class="count">2 / 10</div>');
+  });
+
+  it('shades calendar days by the share of checkboxes done', () => {
+    const m = member([task('teeth', 'checkbox'), task('bed', 'checkbox')]);
+    const html = build(m, [entry('2026-02-01', { teeth: true })]);
+
+    expect(html).toContain('<span class="score">1/2</span>');
+    expect(html).toContain('opacity:0.56');
+  });
+
+  it('summarizes numeric, duration and scale tasks', () => {
+    const m = member([
+      task('reading', 'numeric', { name: 'Reading', unit: 'pages' }),
+      task('piano', 'duration', { name: 'Piano' }),
+      task('mood', 'scale', { name: 'Mood', scale: { min: 1, max: 5 } }),
+    ]);
+    const html = build(m, [
+      entry('2026-02-01', { reading: 10, piano: 1800, mood: 3 }),
+      entry('2026-02-02', { reading: 20, piano: 3600, mood: 5 }),
+    ]);
+
+    expect(html).toContain('Total 30 pages · Average 15 pages · Best 20 pages');
+    expect(html).toContain('Total 1:30 · Average 0:45 · Best 1:00');
+    expect(html).toContain('Average 4 of 5 · 3/5 × 1 · 5/5 × 1');
+  });
+
+  it('says when nothing was logged', () => {
+    const m = member([task('reading', 'numeric'), task('mood', 'scale'), task('diary', 'text')]);
+    const html = build(m, []);
+
+    expect(html).toContain('Nothing logged this month');
+    expect(html).toContain('Nothing rated this month');
+    expect(html).toContain('No notes this month.');
+  });
+
+  it('lists text answers, choice labels and notes by day', () => {
+    const m = member([
+      task('diary', 'text', { name: 'Best part' }),
+      task('chores', 'choice', {
+        name: 'Chores',
+        choice: { multiple: true, options: [{ id: 'o1', label: 'Dishes' }, { id: 'o2', label: 'Laundry' }] },
+      }),
+    ]);
+    const html = build(m, [entry('2026-02-01', { diary: 'The zoo', chores: ['o1', 'o2'] }, '<p>Sunny <b>day</b></p>')]);
+
+    expect(html).toContain('<h4>Sunday, February 1</h4>');
+    expect(html).toContain('<p><strong>Best part:</strong> The zoo</p>');
+    expect(html).toContain('<p><strong>Chores:</strong> Dishes, Laundry</p>');
+    expect(html).toContain('<div class="notes"><p>Sunny <b>day</b></p></div>');
+  });
+
+  it('escapes names, units and answers typed by the family', () => {
+    const m = member([], {
+      name: '<script>alert(1)</script>',
+      sections: [
+        {
+          id: 'morning',
+          name: 'Tom & Jerry',
+          tasks: [
+            task('diary', 'text', { name: '<i>Diary</i>' }),
+            task('reading', 'numeric', { name: 'Reading & "writing"', unit: '<pages>' }),
+          ],
+        },
+      ],
+    });
+    const html = build(m, [entry('2026-02-01', { diary: '<img src=x onerror=alert(1)>', reading: 5 })]);
+
+    expect(html).not.toContain('<script>alert(1)</script>');
+    expect(html).toContain("<h1>&lt;script&gt;alert(1)&lt;/script&gt;'s Journal</h1>");
+    expect(html).toContain('<h2>Tom &amp; Jerry</h2>');
+    expect(html).toContain('<strong>&lt;i&gt;Diary&lt;/i&gt;:</strong> &lt;img src=x onerror=alert(1)&gt;');
+    expect(html).toContain('<h4>Reading &amp; &quot;writing&quot;</h4>');
+    expect(html).toContain('Total 5 &lt;pages&gt;');
+  });
+
+  it('keeps notes formatting but strips scripts and event handlers', () => {
+    const notes = '<p onclick="steal()">Hi <b>there</b></p><script>steal()</script><a href="javascript:steal()">link</a>';
+    const html = build(member([task('diary', 'text')]), [entry('2026-02-01', {}, notes)]);
+
+    expect(html).toContain('<div class="notes"><p>Hi <b>there</b></p><a href="#">link</a></div>');
+    expect(html).not.toContain('steal()');
+  });
+
+  it('strips event handlers that follow a slash instead of a space', () => {
+    const notes = '<img/onerror=steal() src=x><svg/onload="steal()"></svg><p/onclick=\'steal()\'>Hi</p>';
+    const html = build(member([task('diary', 'text')]), [entry('2026-02-01', {}, notes)]);
+
+    expect(html).toContain('<div class="notes"><img src=x><svg></svg><p>Hi</p></div>');
+    expect(html).not.toContain('steal()');
+  });
+
+  it('escapes the member color where it is used in styles', () => {
+    const html = build(member([task('teeth', 'checkbox')], { color: 'red;}</style><script>x()</script>' }), []);
+
+    expect(html).not.toContain('</style><script>');
+    expect(html).toContain('--member: red;}&lt;/style&gt;&lt;script&gt;x()&lt;/script&gt;;');
+  });
+});
@@ -0,0 +1,149 @@
+import { AppSettings, ArchivedAttachment, ExportArchive, ImportPreview, MonthlyEntries } from '../types';
+import { mergeMonthlyEntries, isSameMonthlyData } from './mergeUtils';
+import { migrateSettings, migrateMonthlyEntries, SETTINGS_SCHEMA_VERSION } from './migrations';
+import { validateAppSettings, validateArchivedAttachment, validateMonthlyEntries } from './validation';
+import { mergePurgedHistory } from './historyUtils';
+
+export const ARCHIVE_FORMAT = 'our-journal-archive';
+export const ARCHIVE_VERSION = 1;
+
+/**
+ * Build an archive from everything stored on the device
+ */
+export const createArchive = (
+  settings: AppSettings | null,
+  months: MonthlyEntries[],
+  attachments: ArchivedAttachment[] = []
+): ExportArchive => ({
+  format: ARCHIVE_FORMAT,
+  archiveVersion: ARCHIVE_VERSION,
+  exportedAt: new Date().toISOString(),
+  settings,
+  months: [...months].sort((a, b) => a.month.localeCompare(b.month)),
+  ...(attachments.length > 0 ? { attachments } : {}),
+});
+
+/**
+ * Parse an archive file, upgrading and validating its contents. Throws a
+ * readable error when the file isn't a usable archive.
+ */
+export const parseArchive = (content: string): ExportArchive => {
+  let raw: any;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new Error('This file is not a journal export');
+  }
+
+  if (raw?.format !== ARCHIVE_FORMAT || !Array.isArray(raw.months)) {
+    throw new Error('This file is not a journal export');
+  }
+  if (typeof raw.archiveVersion !== 'number' || raw.archiveVersion > ARCHIVE_VERSION) {
+    throw new Error('This export was made by a newer version of the app. Please update the app to import it.');
+  }
+
+  const settings = raw.settings ? validateAppSettings(migrateSettings(raw.settings)).value : null;
+  if (raw.settings && !settings) {
+    throw new Error('The settings in this export are damaged');
+  }
+
+  const months = raw.months
+    .map((month: unknown) => validateMonthlyEntries(migrateMonthlyEntries(month)).value)
+    .filter((month: MonthlyEntries | null): month is MonthlyEntries => month !== null);
+
+  // Archives from before attachments were exported have no files
+  const attachments = (Array.isArray(raw.attachments) ? raw.attachments : [])
+    .map((attachment: unknown) => validateArchivedAttachment(attachment).value)
+    .filter((attachment: ArchivedAttachment | null): attachment is ArchivedAttachment => attachment !== null);
+
+  return {
+    format: ARCHIVE_FORMAT,
+    archiveVersion: raw.archiveVersion,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    settings,
+    months,
+    ...(attachments.length > 0 ? { attachments } : {}),
+  };
+};
+
+/**
+ * Merge imported settings into existing ones: members are matched by ID, and
+ * members present on both sides are taken from whichever file is newer
+ */
+export const mergeSettingsForImport = (
+  local: AppSettings | null,
+  incoming: AppSettings | null
+): AppSettings | null => {
+  if (!local || !incoming) {
+    return local || incoming;
+  }
+
+  const incomingWins = incoming.lastModified >= local.lastModified;
+  const incomingById = new Map(incoming.members.map((member) => [member.id, member]));
+  const members = local.members.map((member) => {
+    const incomingMember = incomingById.get(member.id);
+    incomingById.delete(member.id);
+    return incomingMember && incomingWins ? incomingMember : member;
+  });
+  incomingById.forEach((member) => members.push(member));
+
+  // Keep every purge from both sides
+  const purgedHistory = mergePurgedHistory(local.purgedHistory || [], incoming.purgedHistory || []);
+
+  return {
+    schemaVersion: SETTINGS_SCHEMA_VERSION,
+    members,
+    ...(purgedHistory.length > 0 ? { purgedHistory } : {}),
+    lastModified: new Date().toISOString(),
+  };
+};
+
+/**
+ * Describe what importing an archive would change in the existing data
+ */
+export const buildImportPreview = (
+  archive: ExportArchive,
+  localSettings: AppSettings | null,
+  localMonths: MonthlyEntries[]
+): ImportPreview => {
+  const localMembers = new Map((localSettings?.members || []).map((member) => [member.id, member]));
+  const incomingMembers = archive.settings?.members || [];
+  const incomingMemberIds = new Set(incomingMembers.map((member) => member.id));
+
+  const addedMembers: string[] = [];
+  const updatedMembers: string[] = [];
+  incomingMembers.forEach((member) => {
+    const localMember = localMembers.get(member.id);
+    if (!localMember) {
+      addedMembers.push(member.name);
+    } else if (JSON.stringify(localMember) !== JSON.stringify(member)) {
+      updatedMembers.push(member.name);
+    }
+  });
+
+  const localByMonth = new Map(localMonths.map((data) => [data.month, data]));
+  const incomingMonths = new Set(archive.months.map((data) => data.month));
+  const addedMonths: string[] = [];
+  const changedMonths: string[] = [];
+  archive.months.forEach((data) => {
+    const localData = localByMonth.get(data.month);
+    if (!localData) {
+      addedMonths.push(data.month);
+    } else if (!isSameMonthlyData(mergeMonthlyEntries(localData, data), localData)) {
+      changedMonths.push(data.month);
+    }
+  });
+
+  return {
+    exportedAt: archive.exportedAt,
+    addedMembers,
+    updatedMembers,
+    removedMembers: Array.from(localMembers.values())
+      .filter((member) => !incomingMemberIds.has(member.id))
+      .map((member) => member.name),
+    addedMonths,
+    changedMonths,
+    removedMonths: localMonths.map((data) => data.month).filter((month) => !incomingMonths.has(month)),
+    entryCount: archive.months.reduce((count, data) => count + data.entries.length, 0),
+  };
+};
@@ -0,0 +1,56 @@
+import { Attachment, AttachmentKind, DailyEntry, MonthlyEntries, SectionEntry } from '../types';
+
+// A voice memo with the day and section it was recorded for
+export interface VoiceMemo {
+  date: string;
+  sectionId: string;
+  attachment: Attachment;
+}
+
+/**
+ * Attachments still shown on a section entry, oldest first, optionally of one kind
+ */
+export const getActiveAttachments = (sectionEntry: SectionEntry | undefined, kind?: AttachmentKind): Attachment[] =>
+  (sectionEntry?.attachments || []).filter(
+    (attachment) => !attachment.removedAt && (!kind || attachment.kind === kind)
+  );
+
+/**
+ * Every attachment referenced in a month, including removed ones
+ */
+export const collectAttachments = (data: MonthlyEntries | null): Attachment[] =>
+  (data?.entries || []).flatMap((entry) =>
+    entry.sectionEntries.flatMap((sectionEntry) => sectionEntry.attachments || [])
+  );
+
+/**
+ * Attachments referenced in `before` that `after` no longer has at all (e.g. purged with their entry)
+ */
+export const getDroppedAttachments = (before: MonthlyEntries | null, after: MonthlyEntries | null): Attachment[] => {
+  const kept = new Set(collectAttachments(after).map((attachment) => attachment.id));
+  return collectAttachments(before).filter((attachment) => !kept.has(attachment.id));
+};
+
+/**
+ * Voice memos in a member's entries, newest first
+ */
+export const getVoiceMemos = (entries: DailyEntry[]): VoiceMemo[] =>
+  entries
+    .flatMap((entry) =>
+      entry.sectionEntries.flatMap((sectionEntry) =>
+        getActiveAttachments(sectionEntry, 'audio').map((attachment) => ({
+          date: entry.date,
+          sectionId: sectionEntry.sectionId,
+          attachment,
+        }))
+      )
+    )
+    .sort((a, b) => b.date.localeCompare(a.date) || b.attachment.createdAt.localeCompare(a.attachment.createdAt));
+
+/**
+ * Format a memo's length as m:ss, e.g. "1:05"
+ */
+export const formatMemoDuration = (durationMs: number): string => {
+  const seconds = Math.max(0, Math.round(durationMs / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,37 @@
+import { ChoiceOption, Task, TaskChoice, TaskResponse } from '../types';
+
+const NO_CHOICES: TaskChoice = { options: [], multiple: false };
+
+/**
+ * A task's options, falling back to none for tasks saved without them
+ */
+export const getTaskChoice = (task: Task): TaskChoice => task.choice || NO_CHOICES;
+
+/**
+ * The options picked in a response, in the task's option order. IDs of
+ * options that were removed from the task are skipped.
+ */
+export const getSelectedOptions = (task: Task, value: TaskResponse['value'] | undefined): ChoiceOption[] => {
+  if (!Array.isArray(value)) return [];
+  return getTaskChoice(task).options.filter((option) => value.includes(option.id));
+};
+
+/**
+ * Format a response's picked options for display, e.g. "Dishes, Laundry"
+ */
+export const formatChoiceValue = (task: Task, value: TaskResponse['value'] | undefined, separator: string = ', '): string =>
+  getSelectedOptions(task, value)
+    .map((option) => option.label)
+    .join(separator);
+
+/**
+ * Tap an option: single-choice tasks switch to it (or clear it when it was
+ * picked), multi-choice tasks add or remove it
+ */
+export const toggleChoice = (choice: TaskChoice, value: TaskResponse['value'] | undefined, optionId: string): string[] => {
+  const selected = Array.isArray(value) ? value : [];
+  if (selected.includes(optionId)) {
+    return selected.filter((id) => id !== optionId);
+  }
+  return choice.multiple ? [...selected, optionId] : [optionId];
+};
@@ -0,0 +1,87 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { DailyEntry, FamilyMember, Section, Task, TaskResponse } from '../types';
+import { getScheduledTasksForHistory } from './taskScheduleUtils';
+import { getScaleLabel, getTaskScale } from './scaleUtils';
+import { formatDuration } from './durationUtils';
+import { formatChoiceValue } from './choiceUtils';
+import { stripHtml } from './textUtils';
+
+const CSV_HEADER = ['Date', 'Member', 'Section', 'Task', 'Type', 'Unit', 'Value', 'Notes'];
+
+/**
+ * Quote a CSV field when needed. Text starting with a formula character is
+ * prefixed so spreadsheets don't evaluate it.
+ */
+const escapeCsvField = (value: string | number): string => {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) || safe !== safe.trim() ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * Format a task response for a spreadsheet cell
+ */
+const formatResponseValue = (task: Task, response: TaskResponse | undefined): string | number => {
+  if (!response) return '';
+  if (task.type === 'checkbox') return response.value === true ? 'yes' : 'no';
+  if (task.type === 'choice') return formatChoiceValue(task, response.value, '; ');
+  if (task.type === 'duration' && typeof response.value === 'number') {
+    return formatDuration(response.value, true);
+  }
+  if (task.type === 'scale' && typeof response.value === 'number') {
+    const label = getScaleLabel(getTaskScale(task), response.value);
+    return label ? `${response.value} ${label}` : response.value;
+  }
+  return Array.isArray(response.value) ? response.value.join('; ') : (response.value as string | number);
+};
+
+// Scale tasks put their range in the unit column (e.g. "1-5"), duration tasks their format
+const getUnitColumn = (task: Task): string => {
+  if (task.type === 'duration') return 'h:mm:ss';
+  if (task.type === 'scale') {
+    const { min, max } = getTaskScale(task);
+    return `${min}-${max}`;
+  }
+  return task.unit || '';
+};
+
+/**
+ * Build a CSV of one member's section: one row per date per scheduled task,
+ * with the section's notes as plain text
+ */
+export const buildSectionCsv = (
+  member: FamilyMember,
+  section: Section,
+  entries: DailyEntry[],
+  startDate: string,
+  endDate: string
+): string => {
+  const entriesByDate = new Map(entries.map((entry) => [entry.date, entry]));
+  const rows: (string | number)[][] = [CSV_HEADER];
+
+  eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) }).forEach((day) => {
+    const date = format(day, 'yyyy-MM-dd');
+    const sectionEntry = entriesByDate
+      .get(date)
+      ?.sectionEntries.find((se) => se.sectionId === section.id);
+    const notes = sectionEntry?.notes ? stripHtml(sectionEntry.notes) : '';
+
+    getScheduledTasksForHistory(member, section, date).forEach((task) => {
+      const response = sectionEntry?.taskResponses.find((tr) => tr.taskId === task.id);
+      rows.push([
+        date,
+        member.name,
+        section.name,
+        task.name,
+        task.type,
+        getUnitColumn(task),
+        formatResponseValue(task, response),
+        notes,
+      ]);
+    });
+  });
+
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n');
+};
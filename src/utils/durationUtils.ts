@@ -0,0 +1,42 @@
+import { Stopwatch } from '../types';
+
+/**
+ * Format seconds as h:mm, or h:mm:ss when `withSeconds` is set
+ */
+export const formatDuration = (totalSeconds: number, withSeconds: boolean = false): string => {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = String(Math.floor((seconds % 3600) / 60)).padStart(2, '0');
+  return withSeconds
+    ? `${hours}:${minutes}:${String(seconds % 60).padStart(2, '0')}`
+    : `${hours}:${minutes}`;
+};
+
+/**
+ * Parse a typed duration: "1:30" (h:mm), "1:30:15" (h:mm:ss) or "45" (minutes).
+ * Returns seconds, or null when the text isn't a duration.
+ */
+export const parseDuration = (text: string): number | null => {
+  const parts = text.trim().split(':');
+  if (parts.length > 3 || parts.some((part) => !/^\d+$/.test(part))) return null;
+
+  const [first, ...rest] = parts.map(Number);
+  if (rest.some((part) => part >= 60)) return null;
+  if (parts.length === 1) return first * 60;
+  return first * 3600 + rest[0] * 60 + (rest[1] ?? 0);
+};
+
+/**
+ * Seconds a stopwatch has counted so far, including the current run
+ */
+export const getStopwatchSeconds = (stopwatch: Stopwatch, now: number = Date.now()): number => {
+  if (!stopwatch.startedAt) return stopwatch.baseSeconds;
+  const elapsed = Math.max(0, Math.floor((now - new Date(stopwatch.startedAt).getTime()) / 1000));
+  return stopwatch.baseSeconds + elapsed;
+};
+
+/**
+ * Key for the stopwatch of one task on one day
+ */
+export const getStopwatchKey = (memberId: string, date: string, sectionId: string, taskId: string): string =>
+  [memberId, date, sectionId, taskId].join('_');
@@ -0,0 +1,99 @@
+import { DailyEntry, EntryChange, HistoryTarget, MonthlyEntries } from '../types';
+
+/**
+ * Remove a day's history covered by any of the targets. Returns null when the
+ * whole entry was purged.
+ */
+export const purgeDailyEntry = (entry: DailyEntry, targets: HistoryTarget[]): DailyEntry | null => {
+  const memberTargets = targets.filter((target) => target.memberId === entry.memberId);
+  if (memberTargets.length === 0) {
+    return entry;
+  }
+  if (memberTargets.some((target) => !target.sectionId)) {
+    return null;
+  }
+
+  let changed = false;
+  const sectionEntries = entry.sectionEntries
+    .filter((sectionEntry) => {
+      const purged = memberTargets.some(
+        (target) => target.sectionId === sectionEntry.sectionId && !target.taskId
+      );
+      changed = changed || purged;
+      return !purged;
+    })
+    .map((sectionEntry) => {
+      const purgedTasks = new Set(
+        memberTargets
+          .filter((target) => target.sectionId === sectionEntry.sectionId && target.taskId)
+          .map((target) => target.taskId)
+      );
+      const { clearedResponses = [], ...rest } = sectionEntry;
+      if (
+        !sectionEntry.taskResponses.some((tr) => purgedTasks.has(tr.taskId)) &&
+        !clearedResponses.some((cleared) => purgedTasks.has(cleared.taskId))
+      ) {
+        return sectionEntry;
+      }
+      changed = true;
+      const remainingCleared = clearedResponses.filter((cleared) => !purgedTasks.has(cleared.taskId));
+      return {
+        ...rest,
+        taskResponses: sectionEntry.taskResponses.filter((tr) => !purgedTasks.has(tr.taskId)),
+        ...(remainingCleared.length > 0 ? { clearedResponses: remainingCleared } : {}),
+      };
+    });
+
+  return changed ? { ...entry, sectionEntries } : entry;
+};
+
+/**
+ * Remove the change log's record of purged history. Notes changes go with
+ * their section.
+ */
+export const purgeChangeLog = (changeLog: EntryChange[], targets: HistoryTarget[]): EntryChange[] => {
+  if (targets.length === 0) {
+    return changeLog;
+  }
+  return changeLog.filter((change) => !isHistoryPurged(change, targets));
+};
+
+/**
+ * Remove purged history from a month file
+ */
+export const purgeMonthlyEntries = (data: MonthlyEntries, targets: HistoryTarget[]): MonthlyEntries => {
+  if (targets.length === 0) {
+    return data;
+  }
+  const { changeLog, ...rest } = data;
+  const remainingChanges = purgeChangeLog(changeLog || [], targets);
+  return {
+    ...rest,
+    entries: data.entries
+      .map((entry) => purgeDailyEntry(entry, targets))
+      .filter((entry): entry is DailyEntry => entry !== null),
+    ...(remainingChanges.length > 0 ? { changeLog: remainingChanges } : {}),
+  };
+};
+
+/**
+ * Whether a target's history is already covered by one of the purged targets
+ */
+export const isHistoryPurged = (target: HistoryTarget, purged: HistoryTarget[]): boolean => {
+  return purged.some(
+    (p) =>
+      p.memberId === target.memberId &&
+      (!p.sectionId || (p.sectionId === target.sectionId && (!p.taskId || p.taskId === target.taskId)))
+  );
+};
+
+/**
+ * Every purge recorded in either list, without targets already covered by another
+ */
+export const mergePurgedHistory = (a: HistoryTarget[], b: HistoryTarget[]): HistoryTarget[] => {
+  const merged = [...a];
+  b.forEach((target) => {
+    if (!isHistoryPurged(target, merged)) merged.push(target);
+  });
+  return merged;
+};
@@ -0,0 +1,263 @@
+import {
+  FamilyMember,
+  HistoryTarget,
+  IntegrityIssue,
+  IntegrityIssueKind,
+  IntegrityReport,
+  MonthlyEntries,
+  Section,
+  TaskResponse,
+  TaskType,
+} from '../types';
+
+// typeof of each task type's values; choice values are arrays
+const VALUE_TYPES: Record<TaskType, string> = {
+  checkbox: 'boolean',
+  text: 'string',
+  numeric: 'number',
+  scale: 'number',
+  duration: 'number',
+  choice: 'object',
+};
+
+const RECOVERED_COLOR = '#9E9E9E';
+
+const matchesTaskType = (value: TaskResponse['value'], type: TaskType): boolean =>
+  typeof value === VALUE_TYPES[type] && Array.isArray(value) === (type === 'choice');
+
+/**
+ * Scan month files for entries that reference members, sections or tasks that
+ * aren't configured, and for values whose type doesn't match their task
+ */
+export const checkIntegrity = (members: FamilyMember[], months: MonthlyEntries[]): IntegrityReport => {
+  const membersById = new Map(members.map((member) => [member.id, member]));
+  const issues = new Map<string, IntegrityIssue>();
+  let entryCount = 0;
+
+  const record = (kind: IntegrityIssueKind, month: string, target: HistoryTarget) => {
+    const key = [kind, target.memberId, target.sectionId || '', target.taskId || ''].join('|');
+    const issue = issues.get(key) || { kind, ...target, count: 0, months: [] };
+    issue.count++;
+    if (!issue.months.includes(month)) {
+      issue.months.push(month);
+    }
+    issues.set(key, issue);
+  };
+
+  months.forEach((data) => {
+    data.entries.forEach((entry) => {
+      entryCount++;
+      const member = membersById.get(entry.memberId);
+      if (!member) {
+        record('unknownMember', data.month, { memberId: entry.memberId });
+        return;
+      }
+
+      entry.sectionEntries.forEach((sectionEntry) => {
+        const target = { memberId: member.id, sectionId: sectionEntry.sectionId };
+        const section = member.sections.find((s) => s.id === sectionEntry.sectionId);
+        if (!section) {
+          record('unknownSection', data.month, target);
+          return;
+        }
+
+        sectionEntry.taskResponses.forEach((response) => {
+          const task = section.tasks.find((t) => t.id === response.taskId);
+          if (!task) {
+            record('unknownTask', data.month, { ...target, taskId: response.taskId });
+          } else if (!matchesTaskType(response.value, task.type)) {
+            record('typeMismatch', data.month, { ...target, taskId: task.id });
+          }
+        });
+      });
+    });
+  });
+
+  return {
+    checkedAt: new Date().toISOString(),
+    monthCount: months.length,
+    entryCount,
+    issues: Array.from(issues.values()).map((issue) => ({ ...issue, months: issue.months.sort() })),
+  };
+};
+
+/**
+ * History targets covering every orphaned member, section and task in a report
+ */
+export const getOrphanTargets = (issues: IntegrityIssue[]): HistoryTarget[] => {
+  return issues
+    .filter((issue) => issue.kind !== 'typeMismatch')
+    .map(({ memberId, sectionId, taskId }) => ({
+      memberId,
+      ...(sectionId ? { sectionId } : {}),
+      ...(taskId ? { taskId } : {}),
+    }));
+};
+
+/**
+ * Convert a value to a task's type when that can be done without guessing;
+ * undefined means the value should be dropped
+ */
+export const coerceResponseValue = (
+  value: TaskResponse['value'],
+  type: TaskType
+): TaskResponse['value'] | undefined => {
+  if (matchesTaskType(value, type)) return value;
+
+  switch (type) {
+    case 'text':
+      return typeof value === 'number' ? String(value) : undefined;
+    case 'numeric':
+    case 'scale':
+    case 'duration': {
+      const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+      return Number.isFinite(parsed) ? parsed : undefined;
+    }
+    case 'checkbox':
+      return value === 'true' ? true : value === 'false' ? false : undefined;
+    case 'choice':
+      return undefined;
+  }
+};
+
+/**
+ * Convert or drop response values that don't match their task's type. Fixed
+ * responses get a new timestamp so they win over older copies when merging;
+ * dropped ones can come back from a copy that still has them, and are caught
+ * again by the next check.
+ */
+export const repairTypeMismatches = (data: MonthlyEntries, members: FamilyMember[]): MonthlyEntries => {
+  const now = new Date().toISOString();
+  const membersById = new Map(members.map((member) => [member.id, member]));
+
+  return {
+    ...data,
+    entries: data.entries.map((entry) => {
+      const member = membersById.get(entry.memberId);
+      if (!member) return entry;
+
+      return {
+        ...entry,
+        sectionEntries: entry.sectionEntries.map((sectionEntry) => {
+          const section = member.sections.find((s) => s.id === sectionEntry.sectionId);
+          if (!section) return sectionEntry;
+
+          const taskResponses: TaskResponse[] = [];
+          sectionEntry.taskResponses.forEach((response) => {
+            const task = section.tasks.find((t) => t.id === response.taskId);
+            if (!task || matchesTaskType(response.value, task.type)) {
+              taskResponses.push(response);
+              return;
+            }
+            const value = coerceResponseValue(response.value, task.type);
+            if (value !== undefined) {
+              taskResponses.push({ ...response, value, lastModified: now });
+            }
+          });
+          return { ...sectionEntry, taskResponses };
+        }),
+      };
+    }),
+  };
+};
+
+// Guess a recovered task's type from the values recorded for it
+const inferTaskType = (values: TaskResponse['value'][]): TaskType => {
+  if (values.length > 0 && values.every((value) => typeof value === 'boolean')) return 'checkbox';
+  if (values.length > 0 && values.every((value) => typeof value === 'number')) return 'numeric';
+  if (values.length > 0 && values.every((value) => Array.isArray(value))) return 'choice';
+  return 'text';
+};
+
+/**
+ * Recreate configuration for orphaned data so its history shows up again.
+ * Recovered members, sections and tasks are added archived, with placeholder
+ * names the family can edit after restoring them.
+ */
+export const reattachOrphans = (
+  members: FamilyMember[],
+  months: MonthlyEntries[],
+  issues: IntegrityIssue[]
+): FamilyMember[] => {
+  const now = new Date().toISOString();
+  const result: FamilyMember[] = JSON.parse(JSON.stringify(members));
+  const targets = getOrphanTargets(issues);
+
+  const ensureMember = (memberId: string): FamilyMember => {
+    let member = result.find((m) => m.id === memberId);
+    if (!member) {
+      const count = result.filter((m) => m.name.startsWith('Recovered member')).length;
+      member = {
+        id: memberId,
+        name: `Recovered member ${count + 1}`,
+        color: RECOVERED_COLOR,
+        sections: [],
+        archivedAt: now,
+      };
+      result.push(member);
+    }
+    return member;
+  };
+
+  const ensureSection = (member: FamilyMember, sectionId: string): Section => {
+    let section = member.sections.find((s) => s.id === sectionId);
+    if (!section) {
+      section = {
+        id: sectionId,
+        name: `Recovered section ${member.sections.length + 1}`,
+        tasks: [],
+        archivedAt: now,
+      };
+      member.sections.push(section);
+    }
+    return section;
+  };
+
+  // Collect the orphaned data's sections and tasks, with the values recorded for each task
+  const found = new Map<string, Map<string, Map<string, TaskResponse['value'][]>>>();
+  months.forEach((data) => {
+    data.entries.forEach((entry) => {
+      entry.sectionEntries.forEach((sectionEntry) => {
+        const sectionTargets = targets.filter(
+          (target) =>
+            target.memberId === entry.memberId &&
+            (!target.sectionId || target.sectionId === sectionEntry.sectionId)
+        );
+        if (sectionTargets.length === 0) return;
+
+        // Sections holding only notes are recovered too
+        const sections = found.get(entry.memberId) || new Map();
+        const tasks = sections.get(sectionEntry.sectionId) || new Map();
+        sections.set(sectionEntry.sectionId, tasks);
+        found.set(entry.memberId, sections);
+
+        sectionEntry.taskResponses.forEach((response) => {
+          if (sectionTargets.some((target) => !target.taskId || target.taskId === response.taskId)) {
+            tasks.set(response.taskId, [...(tasks.get(response.taskId) || []), response.value]);
+          }
+        });
+      });
+    });
+  });
+
+  // Members whose entries are empty still come back
+  targets.forEach((target) => ensureMember(target.memberId));
+
+  found.forEach((sections, memberId) => {
+    const member = ensureMember(memberId);
+    sections.forEach((tasks, sectionId) => {
+      const section = ensureSection(member, sectionId);
+      tasks.forEach((values, taskId) => {
+        if (section.tasks.some((t) => t.id === taskId)) return;
+        section.tasks.push({
+          id: taskId,
+          name: `Recovered task ${section.tasks.length + 1}`,
+          type: inferTaskType(values),
+          archivedAt: now,
+        });
+      });
+    });
+  });
+
+  return result;
+};
@@ -0,0 +1,218 @@
+import { Attachment, ClearedResponse, DailyEntry, EntryChange, SectionEntry, TaskResponse, MonthlyEntries } from '../types';
+
+const getEntryKey = (entry: DailyEntry) => `${entry.memberId}_${entry.date}`;
+
+const maxTimestamp = (a: string, b: string): string => (a >= b ? a : b);
+
+/**
+ * Pick the newer of two versions of a value. Equal timestamps fall back to
+ * comparing the serialized values so every device resolves the tie the same way.
+ */
+const pickNewer = <T>(a: T, aTime: string, b: T, bTime: string): T => {
+  if (aTime !== bTime) {
+    return aTime > bTime ? a : b;
+  }
+  return JSON.stringify(a) >= JSON.stringify(b) ? a : b;
+};
+
+/**
+ * Merge two versions of a task response list, ordered by task. Responses saved
+ * before per-response timestamps existed inherit their entry's lastModified.
+ */
+const mergeTaskResponses = (
+  local: TaskResponse[],
+  localFallback: string,
+  remote: TaskResponse[],
+  remoteFallback: string
+): TaskResponse[] => {
+  const result: TaskResponse[] = [];
+  const remoteById = new Map(remote.map((tr) => [tr.taskId, tr]));
+
+  local.forEach((localResponse) => {
+    const remoteResponse = remoteById.get(localResponse.taskId);
+    if (!remoteResponse) {
+      result.push(localResponse);
+      return;
+    }
+    remoteById.delete(localResponse.taskId);
+    result.push(
+      pickNewer(
+        localResponse,
+        localResponse.lastModified || localFallback,
+        remoteResponse,
+        remoteResponse.lastModified || remoteFallback
+      )
+    );
+  });
+
+  remoteById.forEach((remoteResponse) => result.push(remoteResponse));
+  return result.sort((a, b) => a.taskId.localeCompare(b.taskId));
+};
+
+/**
+ * Merge two attachment lists. Attachments never change after being added, so
+ * the only conflict is a removal on one side, which wins.
+ */
+export const mergeAttachments = (local: Attachment[], remote: Attachment[]): Attachment[] => {
+  const merged = new Map<string, Attachment>();
+  [...local, ...remote].forEach((attachment) => {
+    const existing = merged.get(attachment.id);
+    if (!existing || (!existing.removedAt && attachment.removedAt)) {
+      merged.set(attachment.id, attachment);
+    }
+  });
+  return Array.from(merged.values()).sort(
+    (a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id)
+  );
+};
+
+/**
+ * Merge two lists of removed answers, keeping the latest removal of each task
+ */
+const mergeClearedResponses = (local: ClearedResponse[], remote: ClearedResponse[]): ClearedResponse[] => {
+  const merged = new Map<string, ClearedResponse>();
+  [...local, ...remote].forEach((cleared) => {
+    const existing = merged.get(cleared.taskId);
+    if (!existing || cleared.clearedAt > existing.clearedAt) {
+      merged.set(cleared.taskId, cleared);
+    }
+  });
+  return Array.from(merged.values()).sort((a, b) => a.taskId.localeCompare(b.taskId));
+};
+
+/**
+ * Merge two versions of a section entry: task responses are merged one by one,
+ * notes are taken from whichever side edited them last, attachments are combined.
+ * A removed answer stays removed unless it was answered again afterwards.
+ */
+const mergeSectionEntries = (
+  local: SectionEntry,
+  localFallback: string,
+  remote: SectionEntry,
+  remoteFallback: string
+): SectionEntry => {
+  // Empty notes without a timestamp were never edited and must not override real notes
+  const localNotesTime = local.notesModified || (local.notes ? localFallback : '');
+  const remoteNotesTime = remote.notesModified || (remote.notes ? remoteFallback : '');
+  const { notes, notesModified } = pickNewer(
+    { notes: local.notes, notesModified: local.notesModified },
+    localNotesTime,
+    { notes: remote.notes, notesModified: remote.notesModified },
+    remoteNotesTime
+  );
+  const attachments = mergeAttachments(local.attachments || [], remote.attachments || []);
+
+  // Responses without a timestamp predate removals, so a removal always covers them
+  const cleared = mergeClearedResponses(local.clearedResponses || [], remote.clearedResponses || []);
+  const clearedAt = new Map(cleared.map((c) => [c.taskId, c.clearedAt]));
+  const taskResponses = mergeTaskResponses(
+    local.taskResponses,
+    localFallback,
+    remote.taskResponses,
+    remoteFallback
+  ).filter((tr) => {
+    const removedAt = clearedAt.get(tr.taskId);
+    return removedAt === undefined || (tr.lastModified || '') > removedAt;
+  });
+  const clearedResponses = cleared.filter((c) => !taskResponses.some((tr) => tr.taskId === c.taskId));
+
+  return {
+    sectionId: local.sectionId,
+    taskResponses,
+    notes,
+    ...(notesModified ? { notesModified } : {}),
+    ...(attachments.length > 0 ? { attachments } : {}),
+    ...(clearedResponses.length > 0 ? { clearedResponses } : {}),
+  };
+};
+
+/**
+ * Merge two versions of the same member's entry for the same day
+ */
+export const mergeDailyEntries = (local: DailyEntry, remote: DailyEntry): DailyEntry => {
+  const remoteBySection = new Map(remote.sectionEntries.map((se) => [se.sectionId, se]));
+  const sectionEntries: SectionEntry[] = [];
+
+  local.sectionEntries.forEach((localSection) => {
+    const remoteSection = remoteBySection.get(localSection.sectionId);
+    if (!remoteSection) {
+      sectionEntries.push(localSection);
+      return;
+    }
+    remoteBySection.delete(localSection.sectionId);
+    sectionEntries.push(
+      mergeSectionEntries(localSection, local.lastModified, remoteSection, remote.lastModified)
+    );
+  });
+
+  remoteBySection.forEach((remoteSection) => sectionEntries.push(remoteSection));
+
+  // A fixed order, so both devices produce identical files and don't keep re-uploading them
+  return {
+    date: local.date,
+    memberId: local.memberId,
+    sectionEntries: sectionEntries.sort((a, b) => a.sectionId.localeCompare(b.sectionId)),
+    lastModified: maxTimestamp(local.lastModified, remote.lastModified),
+  };
+};
+
+/**
+ * Merge two change logs. A change edited again on one side (the same author
+ * kept typing) is taken from whichever side updated it last.
+ */
+export const mergeChangeLogs = (local: EntryChange[], remote: EntryChange[]): EntryChange[] => {
+  const merged = new Map<string, EntryChange>();
+  [...local, ...remote].forEach((change) => {
+    const existing = merged.get(change.id);
+    merged.set(
+      change.id,
+      existing ? pickNewer(existing, existing.timestamp, change, change.timestamp) : change
+    );
+  });
+  return Array.from(merged.values()).sort(
+    (a, b) => a.timestamp.localeCompare(b.timestamp) || a.id.localeCompare(b.id)
+  );
+};
+
+/**
+ * Merge two versions of a month file. Entries present on only one side are kept
+ * as-is; entries present on both are merged field by field. Both versions must
+ * already be migrated to the current schema.
+ */
+export const mergeMonthlyEntries = (
+  local: MonthlyEntries,
+  remote: MonthlyEntries
+): MonthlyEntries => {
+  const merged = new Map<string, DailyEntry>();
+
+  local.entries.forEach((entry) => merged.set(getEntryKey(entry), entry));
+  remote.entries.forEach((remoteEntry) => {
+    const key = getEntryKey(remoteEntry);
+    const localEntry = merged.get(key);
+    merged.set(key, localEntry ? mergeDailyEntries(localEntry, remoteEntry) : remoteEntry);
+  });
+
+  const entries = Array.from(merged.values()).sort(
+    (a, b) => a.date.localeCompare(b.date) || a.memberId.localeCompare(b.memberId)
+  );
+
+  const changeLog = mergeChangeLogs(local.changeLog || [], remote.changeLog || []);
+
+  return {
+    schemaVersion: Math.max(local.schemaVersion, remote.schemaVersion),
+    month: local.month,
+    entries,
+    ...(changeLog.length > 0 ? { changeLog } : {}),
+    lastModified: maxTimestamp(local.lastModified, remote.lastModified),
+  };
+};
+
+/**
+ * Whether two month files hold the same data (ignoring their file-level timestamp)
+ */
+export const isSameMonthlyData = (a: MonthlyEntries, b: MonthlyEntries): boolean => {
+  return (
+    JSON.stringify(a.entries) === JSON.stringify(b.entries) &&
+    JSON.stringify(a.changeLog || []) === JSON.stringify(b.changeLog || [])
+  );
+};
@@ -0,0 +1,120 @@
+import { AppSettings, MonthlyEntries } from '../types';
+
+// Persisted data that can't be used as-is; callers quarantine it instead of crashing
+export class SchemaError extends Error {}
+
+// Data written by a newer app version; it must not be overwritten by this one
+export class SchemaVersionError extends Error {}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Map over an array of objects, leaving anything malformed for validation to deal with
+const mapObjects = (value: unknown, fn: (item: Record<string, any>) => any): unknown =>
+  Array.isArray(value) ? value.map((item) => (isObject(item) ? fn(item) : item)) : value;
+
+interface Migration {
+  version: number; // schema version the data has after this step
+  description: string;
+  migrate: (data: any) => any;
+}
+
+/**
+ * Settings migrations, in order. Data without a schemaVersion is version 0.
+ * Append new steps here and never edit a released one.
+ */
+const settingsMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Ensure every member has a sections list and every section a tasks list',
+    migrate: (data) => ({
+      ...data,
+      members: mapObjects(data.members, (member) => ({
+        ...member,
+        sections: Array.isArray(member.sections)
+          ? mapObjects(member.sections, (section) => ({
+              ...section,
+              tasks: Array.isArray(section.tasks) ? section.tasks : [],
+            }))
+          : [],
+      })),
+    }),
+  },
+];
+
+/**
+ * Monthly entries migrations, in order. Data without a schemaVersion is version 0.
+ * Append new steps here and never edit a released one.
+ */
+const entriesMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Give task responses and edited notes their own timestamps, inherited from the entry',
+    migrate: (data) => ({
+      ...data,
+      entries: mapObjects(data.entries, (entry) => ({
+        ...entry,
+        sectionEntries: mapObjects(entry.sectionEntries, (sectionEntry) => ({
+          ...sectionEntry,
+          taskResponses: mapObjects(sectionEntry.taskResponses, (response) => ({
+            ...response,
+            lastModified: response.lastModified || entry.lastModified,
+          })),
+          ...(sectionEntry.notes && !sectionEntry.notesModified
+            ? { notesModified: entry.lastModified }
+            : {}),
+        })),
+      })),
+    }),
+  },
+];
+
+export const SETTINGS_SCHEMA_VERSION = settingsMigrations[settingsMigrations.length - 1].version;
+export const ENTRIES_SCHEMA_VERSION = entriesMigrations[entriesMigrations.length - 1].version;
+
+/**
+ * Run every migration newer than the data's schemaVersion
+ */
+const runMigrations = (
+  raw: unknown,
+  migrations: Migration[],
+  currentVersion: number,
+  label: string
+): Record<string, any> => {
+  if (!isObject(raw)) {
+    throw new SchemaError(`${label} is not an object`);
+  }
+
+  const version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (version > currentVersion) {
+    throw new SchemaVersionError(
+      `${label} was saved by a newer version of the app. Please update the app to sync.`
+    );
+  }
+
+  return migrations
+    .filter((migration) => migration.version > version)
+    .reduce((data, migration) => ({ ...migration.migrate(data), schemaVersion: migration.version }), raw);
+};
+
+/**
+ * Upgrade stored settings to the current schema
+ */
+export const migrateSettings = (raw: unknown): AppSettings => {
+  const data = runMigrations(raw, settingsMigrations, SETTINGS_SCHEMA_VERSION, 'Settings');
+  if (!Array.isArray(data.members)) {
+    throw new SchemaError('Settings have no members list');
+  }
+  return data as AppSettings;
+};
+
+/**
+ * Upgrade a stored month file to the current schema
+ */
+export const migrateMonthlyEntries = (raw: unknown): MonthlyEntries => {
+  const data = runMigrations(raw, entriesMigrations, ENTRIES_SCHEMA_VERSION, 'Month file');
+  if (typeof data.month !== 'string' || !Array.isArray(data.entries)) {
+    throw new SchemaError('Month file has no month or entries list');
+  }
+  return data as MonthlyEntries;
+};
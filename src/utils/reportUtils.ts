@@ -0,0 +1,282 @@
+import { eachDayOfInterval, endOfMonth, format, getDay, parseISO } from 'date-fns';
+import { DailyEntry, FamilyMember, MonthlyEntries, Section, SectionEntry, Task } from '../types';
+import { getScheduledTasksForHistory } from './taskScheduleUtils';
+import { escapeHtml, sanitizeRichText } from './textUtils';
+import { formatScaleValue, getScaleSteps, getTaskScale } from './scaleUtils';
+import { formatDuration } from './durationUtils';
+import { formatChoiceValue } from './choiceUtils';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 140;
+
+interface ReportDay {
+  date: string;
+  isFuture: boolean; // days after `today` are shown but not counted
+  entry?: DailyEntry;
+}
+
+const getSectionEntry = (day: ReportDay, section: Section): SectionEntry | undefined =>
+  day.entry?.sectionEntries.find((se) => se.sectionId === section.id);
+
+const getResponseValue = (day: ReportDay, section: Section, task: Task) =>
+  getSectionEntry(day, section)?.taskResponses.find((tr) => tr.taskId === task.id)?.value;
+
+/**
+ * Count scheduled and completed checkbox tasks (reward coins) for a section
+ */
+const countSectionCoins = (member: FamilyMember, section: Section, days: ReportDay[]) => {
+  let completed = 0;
+  let total = 0;
+  days
+    .filter((day) => !day.isFuture)
+    .forEach((day) => {
+      getScheduledTasksForHistory(member, section, day.date)
+        .filter((task) => task.type === 'checkbox')
+        .forEach((task) => {
+          total++;
+          if (getResponseValue(day, section, task) === true) {
+            completed++;
+          }
+        });
+    });
+  return { completed, total };
+};
+
+// Completion calendar: one cell per day, shaded by the share of scheduled checkboxes done
+const renderCalendar = (member: FamilyMember, section: Section, days: ReportDay[], color: string): string => {
+  const cells: string[] = Array.from({ length: getDay(parseISO(days[0].date)) }, () => '<td class="empty"></td>');
+
+  days.forEach((day) => {
+    const tasks = getScheduledTasksForHistory(member, section, day.date).filter(
+      (task) => task.type === 'checkbox'
+    );
+    const done = tasks.filter((task) => getResponseValue(day, section, task) === true).length;
+    const dayNumber = parseISO(day.date).getDate();
+
+    if (day.isFuture || tasks.length === 0) {
+      cells.push(`<td class="day off"><span class="num">${dayNumber}</span></td>`);
+      return;
+    }
+    const opacity = (0.12 + (done / tasks.length) * 0.88).toFixed(2);
+    const style = done > 0 ? ` style="background:${color};opacity:${opacity}"` : '';
+    cells.push(
+      `<td class="day"><div class="fill"${style}></div><span class="num">${dayNumber}</span>` +
+        `<span class="score">${done}/${tasks.length}</span></td>`
+    );
+  });
+
+  while (cells.length % 7 !== 0) {
+    cells.push('<td class="empty"></td>');
+  }
+
+  const rows: string[] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    rows.push(`<tr>${cells.slice(i, i + 7).join('')}</tr>`);
+  }
+  const header = WEEKDAYS.map((day) => `<th>${day}</th>`).join('');
+  return `<table class="calendar"><thead><tr>${header}</tr></thead><tbody>${rows.join('')}</tbody></table>`;
+};
+
+// Bar chart of a numeric or duration task's daily values as inline SVG
+const renderNumericChart = (section: Section, task: Task, days: ReportDay[], color: string): string => {
+  const values = days.map((day) => {
+    const value = getResponseValue(day, section, task);
+    return typeof value === 'number' ? value : 0;
+  });
+  const logged = values.filter((value) => value > 0);
+  const max = Math.max(...values, 1);
+  const slot = CHART_WIDTH / days.length;
+  const unit = task.unit ? ` ${escapeHtml(task.unit)}` : '';
+  const formatValue = (value: number) =>
+    task.type === 'duration' ? formatDuration(value) : `${Math.round(value * 10) / 10}${unit}`;
+
+  const bars = values
+    .map((value, i) => {
+      if (value <= 0) return '';
+      const height = (value / max) * (CHART_HEIGHT - 16);
+      return `<rect x="${(i * slot + slot * 0.15).toFixed(1)}" y="${(CHART_HEIGHT - height).toFixed(1)}" ` +
+        `width="${(slot * 0.7).toFixed(1)}" height="${height.toFixed(1)}" rx="2" fill="${color}" />`;
+    })
+    .join('');
+  const labels = days
+    .map((day, i) => {
+      const dayNumber = parseISO(day.date).getDate();
+      if (dayNumber !== 1 && dayNumber % 5 !== 0) return '';
+      return `<text x="${(i * slot + slot / 2).toFixed(1)}" y="${CHART_HEIGHT + 14}" text-anchor="middle">${dayNumber}</text>`;
+    })
+    .join('');
+
+  const total = logged.reduce((sum, value) => sum + value, 0);
+  const summary = logged.length > 0
+    ? `Total ${formatValue(total)} · Average ${formatValue(total / logged.length)} · Best ${formatValue(max)}`
+    : 'Nothing logged this month';
+
+  return `<div class="chart"><h4>${escapeHtml(task.name)}</h4>` +
+    `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT + 20}" width="100%">` +
+    `<line x1="0" y1="${CHART_HEIGHT}" x2="${CHART_WIDTH}" y2="${CHART_HEIGHT}" class="axis" />` +
+    `${bars}${labels}</svg><p class="muted">${summary}</p></div>`;
+};
+
+// Line of a scale task's daily ratings as inline SVG, plus how often each step was picked
+const renderScaleChart = (section: Section, task: Task, days: ReportDay[], color: string): string => {
+  const scale = getTaskScale(task);
+  const slot = CHART_WIDTH / days.length;
+  const yFor = (value: number) => CHART_HEIGHT - 8 - ((value - scale.min) / (scale.max - scale.min)) * (CHART_HEIGHT - 16);
+  const points = days
+    .map((day, i) => ({ x: i * slot + slot / 2, value: getResponseValue(day, section, task) }))
+    .filter((point): point is { x: number; value: number } =>
+      typeof point.value === 'number' && point.value >= scale.min && point.value <= scale.max
+    );
+
+  const line = points.length > 1
+    ? `<polyline points="${points.map((p) => `${p.x.toFixed(1)},${yFor(p.value).toFixed(1)}`).join(' ')}" ` +
+      `fill="none" stroke="${color}" stroke-width="2" />`
+    : '';
+  const dots = points
+    .map((p) => `<circle cx="${p.x.toFixed(1)}" cy="${yFor(p.value).toFixed(1)}" r="3" fill="${color}" />`)
+    .join('');
+  const labels = days
+    .map((day, i) => {
+      const dayNumber = parseISO(day.date).getDate();
+      if (dayNumber !== 1 && dayNumber % 5 !== 0) return '';
+      return `<text x="${(i * slot + slot / 2).toFixed(1)}" y="${CHART_HEIGHT + 14}" text-anchor="middle">${dayNumber}</text>`;
+    })
+    .join('');
+
+  const counts = getScaleSteps(scale)
+    .map((step) => ({ step, count: points.filter((p) => p.value === step).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ step, count }) => `${escapeHtml(formatScaleValue(scale, step))} × ${count}`);
+  const total = points.reduce((sum, p) => sum + p.value, 0);
+  const summary = points.length > 0
+    ? `Average ${Math.round((total / points.length) * 10) / 10} of ${scale.max} · ${counts.join(' · ')}`
+    : 'Nothing rated this month';
+
+  return `<div class="chart"><h4>${escapeHtml(task.name)}</h4>` +
+    `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT + 20}" width="100%">` +
+    `<line x1="0" y1="${CHART_HEIGHT}" x2="${CHART_WIDTH}" y2="${CHART_HEIGHT}" class="axis" />` +
+    `${line}${dots}${labels}</svg><p class="muted">${summary}</p></div>`;
+};
+
+// Day-by-day journal: text and choice task answers and the section's notes
+const renderJournal = (section: Section, days: ReportDay[]): string => {
+  const answerTasks = section.tasks.filter((task) => task.type === 'text' || task.type === 'choice');
+  const items = days
+    .map((day) => {
+      const sectionEntry = getSectionEntry(day, section);
+      const answers = answerTasks
+        .map((task) => {
+          const value = getResponseValue(day, section, task);
+          return { task, answer: task.type === 'choice' ? formatChoiceValue(task, value) : value };
+        })
+        .filter(({ answer }) => typeof answer === 'string' && answer.trim().length > 0)
+        .map(({ task, answer }) => `<p><strong>${escapeHtml(task.name)}:</strong> ${escapeHtml(answer as string)}</p>`)
+        .join('');
+      const notes = sectionEntry?.notes ? `<div class="notes">${sanitizeRichText(sectionEntry.notes)}</div>` : '';
+      if (!answers && !notes) return '';
+      return `<div class="journal-day"><h4>${format(parseISO(day.date), 'EEEE, MMMM d')}</h4>${answers}${notes}</div>`;
+    })
+    .filter(Boolean);
+
+  return items.length > 0 ? items.join('') : '<p class="muted">No notes this month.</p>';
+};
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #222; margin: 24px; }
+  h1 { margin: 0; font-size: 26px; }
+  h2 { margin: 32px 0 8px; padding-bottom: 4px; border-bottom: 2px solid var(--member); page-break-after: avoid; }
+  h3 { margin: 20px 0 8px; font-size: 15px; color: #555; text-transform: uppercase; letter-spacing: 0.5px; }
+  h4 { margin: 12px 0 4px; font-size: 14px; }
+  .muted { color: #777; font-size: 12px; margin: 4px 0; }
+  .header { border-left: 6px solid var(--member); padding-left: 12px; margin-bottom: 16px; }
+  .coins { display: flex; gap: 16px; align-items: center; background: #FFF8E1; border-radius: 12px; padding: 12px 16px; }
+  .coins .count { font-size: 32px; font-weight: 700; color: #FFA000; }
+  .coins table { border-collapse: collapse; font-size: 12px; }
+  .coins td { padding: 2px 8px; }
+  .calendar { border-collapse: separate; border-spacing: 4px; width: 100%; table-layout: fixed; page-break-inside: avoid; }
+  .calendar th { font-size: 11px; color: #777; font-weight: 600; }
+  .calendar td { height: 44px; border-radius: 6px; position: relative; vertical-align: top; background: #F2F2F2; overflow: hidden; }
+  .calendar td.empty { background: transparent; }
+  .calendar td.off { background: #FAFAFA; color: #BBB; }
+  .calendar .fill { position: absolute; inset: 0; }
+  .calendar .num { position: relative; font-size: 11px; padding: 3px 5px; display: block; }
+  .calendar .score { position: relative; font-size: 10px; padding: 0 5px; color: #333; }
+  .chart { page-break-inside: avoid; }
+  .chart svg text { font-size: 10px; fill: #777; }
+  .chart .axis { stroke: #DDD; stroke-width: 1; }
+  .journal-day { page-break-inside: avoid; border-left: 3px solid #EEE; padding-left: 10px; margin-bottom: 12px; }
+  .journal-day p { margin: 4px 0; font-size: 13px; }
+  .notes { font-size: 13px; line-height: 1.5; }
+  .notes img { max-width: 100%; }
+`;
+
+/**
+ * Build a printable monthly "journal book" for one member: reward coins, a
+ * completion calendar, numeric, duration and scale charts and every day's notes, per section.
+ * `today` limits what counts towards rewards when printing the current month.
+ */
+export const buildMonthlyReportHtml = (
+  member: FamilyMember,
+  monthlyEntries: MonthlyEntries | null,
+  month: string,
+  today: string = format(new Date(), 'yyyy-MM-dd')
+): string => {
+  const monthStart = parseISO(`${month}-01`);
+  const color = escapeHtml(member.color);
+  const entriesByDate = new Map(
+    (monthlyEntries?.entries || [])
+      .filter((entry) => entry.memberId === member.id)
+      .map((entry) => [entry.date, entry])
+  );
+  const days: ReportDay[] = eachDayOfInterval({ start: monthStart, end: endOfMonth(monthStart) }).map((day) => {
+    const date = format(day, 'yyyy-MM-dd');
+    return { date, isFuture: date > today, entry: entriesByDate.get(date) };
+  });
+
+  const coinsBySection = member.sections.map((section) => ({ section, ...countSectionCoins(member, section, days) }));
+  const completedCoins = coinsBySection.reduce((sum, { completed }) => sum + completed, 0);
+  const totalCoins = coinsBySection.reduce((sum, { total }) => sum + total, 0);
+  const loggedDays = days.filter((day) => day.entry).length;
+
+  const coinRows = coinsBySection
+    .filter(({ total }) => total > 0)
+    .map(({ section, completed, total }) => `<tr><td>${escapeHtml(section.name)}</td><td>${completed} / ${total}</td></tr>`)
+    .join('');
+
+  const sections = member.sections
+    .map((section) => {
+      const numericTasks = section.tasks.filter((task) => task.type === 'numeric' || task.type === 'duration');
+      const scaleTasks = section.tasks.filter((task) => task.type === 'scale');
+      const hasCheckboxes = section.tasks.some((task) => task.type === 'checkbox');
+      return `<section><h2>${escapeHtml(section.name)}</h2>` +
+        (hasCheckboxes ? `<h3>Completion</h3>${renderCalendar(member, section, days, color)}` : '') +
+        (numericTasks.length > 0 || scaleTasks.length > 0
+          ? `<h3>Progress</h3>${numericTasks.map((task) => renderNumericChart(section, task, days, color)).join('')}` +
+            scaleTasks.map((task) => renderScaleChart(section, task, days, color)).join('')
+          : '') +
+        `<h3>Journal</h3>${renderJournal(section, days)}</section>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(member.name)} · ${format(monthStart, 'MMMM yyyy')}</title>
+<style>:root { --member: ${color}; }${REPORT_STYLES}</style>
+</head>
+<body>
+<div class="header">
+<h1>${escapeHtml(member.name)}'s Journal</h1>
+<p class="muted">${format(monthStart, 'MMMM yyyy')} · ${loggedDays} of ${days.length} days logged</p>
+</div>
+<div class="coins">
+<div class="count">${completedCoins} / ${totalCoins}</div>
+<div><strong>Reward coins earned</strong>${coinRows ? `<table>${coinRows}</table>` : '<p class="muted">No checkbox tasks configured</p>'}</div>
+</div>
+${sections || '<p class="muted">No sections configured.</p>'}
+</body>
+</html>`;
+};
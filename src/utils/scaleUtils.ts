@@ -0,0 +1,36 @@
+import { Task, TaskResponse, TaskScale } from '../types';
+
+export const DEFAULT_SCALE: TaskScale = { min: 1, max: 5 };
+
+// Lowest and highest step a scale can use
+export const SCALE_LOWEST = 0;
+export const SCALE_HIGHEST = 10;
+
+// Emoji preset for a 1-5 mood scale
+export const MOOD_EMOJIS = ['😢', '🙁', '😐', '🙂', '😄'];
+
+/**
+ * A task's scale, falling back to 1-5 for tasks saved without one
+ */
+export const getTaskScale = (task: Task): TaskScale => task.scale || DEFAULT_SCALE;
+
+/**
+ * Every step of a scale, lowest first
+ */
+export const getScaleSteps = (scale: TaskScale): number[] =>
+  Array.from({ length: scale.max - scale.min + 1 }, (_, i) => scale.min + i);
+
+/**
+ * The label or emoji for a step, or undefined when the step only shows its number
+ */
+export const getScaleLabel = (scale: TaskScale, value: number): string | undefined =>
+  scale.labels?.[value - scale.min]?.trim() || undefined;
+
+/**
+ * Format a recorded value for display, e.g. "4 🙂" or "7/10"
+ */
+export const formatScaleValue = (scale: TaskScale, value: TaskResponse['value']): string => {
+  if (typeof value !== 'number') return '';
+  const label = getScaleLabel(scale, value);
+  return label ? `${value} ${label}` : `${value}/${scale.max}`;
+};
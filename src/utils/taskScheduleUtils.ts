@@ -1,10 +1,36 @@
-import { getDay, parseISO } from 'date-fns';
-import { Task, Section, DayOfWeek } from '../types';
+import { format, getDay, parseISO } from 'date-fns';
+import { Task, Section, DayOfWeek, FamilyMember } from '../types';
+
+/**
+ * Check if a member, section or task still existed on a date. Archived items
+ * keep counting in charts and rewards for the days before they were archived.
+ */
+export const wasActiveOnDate = (item: { archivedAt?: string }, date: string): boolean => {
+  return !item.archivedAt || date < format(parseISO(item.archivedAt), 'yyyy-MM-dd');
+};
+
+/**
+ * Members shown in the journal (archived members are hidden)
+ */
+export const getActiveMembers = (members: FamilyMember[]): FamilyMember[] => {
+  return members.filter((member) => !member.archivedAt);
+};
+
+/**
+ * Sections shown in the journal (archived sections are hidden)
+ */
+export const getActiveSections = (member: FamilyMember): Section[] => {
+  return member.sections.filter((section) => !section.archivedAt);
+};
 
 /**
  * Check if a task should be visible on a given date
  */
 export const isTaskVisibleOnDate = (task: Task, date: string): boolean => {
+  if (!wasActiveOnDate(task, date)) {
+    return false;
+  }
+
   // No schedule or schedule disabled = always visible
   if (!task.schedule?.enabled || task.schedule.days.length === 0) {
     return true;
@@ -15,12 +41,27 @@ export const isTaskVisibleOnDate = (task: Task, date: string): boolean => {
 };
 
 /**
- * Filter tasks in a section to only those visible on the given date
+ * Tasks of a section that counted on a date for history (charts, rewards,
+ * exports): scheduled that day, with the member, section and task not yet archived
  */
-export const getVisibleTasks = (section: Section, date: string): Task[] => {
+export const getScheduledTasksForHistory = (
+  member: FamilyMember,
+  section: Section,
+  date: string
+): Task[] => {
+  if (!wasActiveOnDate(member, date) || !wasActiveOnDate(section, date)) {
+    return [];
+  }
   return section.tasks.filter((task) => isTaskVisibleOnDate(task, date));
 };
 
+/**
+ * Filter tasks in a section to the unarchived ones visible on the given date
+ */
+export const getVisibleTasks = (section: Section, date: string): Task[] => {
+  return section.tasks.filter((task) => !task.archivedAt && isTaskVisibleOnDate(task, date));
+};
+
 /**
  * Get all scheduled days for a task (returns all days if no schedule)
  */
@@ -0,0 +1,651 @@
+import {
+  AppSettings,
+  ArchivedAttachment,
+  Attachment,
+  AttachmentKind,
+  AuthState,
+  ClearedResponse,
+  DailyEntry,
+  DayOfWeek,
+  EntryChange,
+  FamilyMember,
+  HistoryTarget,
+  MonthlyEntries,
+  Section,
+  SectionEntry,
+  SyncState,
+  Task,
+  TaskReminder,
+  TaskResponse,
+  TaskScale,
+  TaskSchedule,
+  TaskType,
+  TaskChoice,
+  ChoiceOption,
+  Stopwatch,
+  WebDavConfig,
+} from '../types';
+import { isValidDateString } from './dateUtils';
+import { DEFAULT_SCALE, SCALE_HIGHEST, SCALE_LOWEST, getScaleSteps } from './scaleUtils';
+import { getStopwatchKey } from './durationUtils';
+
+// Validated value (null when nothing usable was left) plus a description of every repair and drop
+export interface ValidationResult<T> {
+  value: T | null;
+  issues: string[];
+}
+
+type Validator<T> = (raw: unknown, path: string, issues: string[]) => T | null;
+
+const TASK_TYPES: TaskType[] = ['checkbox', 'text', 'numeric', 'scale', 'duration', 'choice'];
+const ATTACHMENT_KINDS: AttachmentKind[] = ['image', 'audio'];
+const DEFAULT_MEMBER_COLOR = '#1E88E5';
+const EPOCH = new Date(0).toISOString();
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0;
+
+/**
+ * Read a string field, falling back (and reporting it) when missing or wrong-typed
+ */
+const readString = (
+  raw: Record<string, any>,
+  field: string,
+  fallback: string,
+  path: string,
+  issues: string[]
+): string => {
+  if (typeof raw[field] === 'string') {
+    return raw[field];
+  }
+  issues.push(`${path}.${field}: expected a string, reset to "${fallback}"`);
+  return fallback;
+};
+
+const readBoolean = (
+  raw: Record<string, any>,
+  field: string,
+  fallback: boolean,
+  path: string,
+  issues: string[]
+): boolean => {
+  if (typeof raw[field] === 'boolean') {
+    return raw[field];
+  }
+  issues.push(`${path}.${field}: expected a boolean, reset to ${fallback}`);
+  return fallback;
+};
+
+// Keep a valid archivedAt timestamp; anything else un-archives the item
+const readArchivedAt = (
+  raw: Record<string, any>,
+  path: string,
+  issues: string[]
+): { archivedAt?: string } => {
+  if (raw.archivedAt === undefined) return {};
+  if (isNonEmptyString(raw.archivedAt) && !isNaN(Date.parse(raw.archivedAt))) {
+    return { archivedAt: raw.archivedAt };
+  }
+  issues.push(`${path}.archivedAt: invalid timestamp, dropped`);
+  return {};
+};
+
+/**
+ * Clamp an integer field into [min, max], falling back when it isn't a number
+ */
+const readInteger = (
+  raw: Record<string, any>,
+  field: string,
+  min: number,
+  max: number,
+  fallback: number,
+  path: string,
+  issues: string[]
+): number => {
+  const value = raw[field];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push(`${path}.${field}: expected a number, reset to ${fallback}`);
+    return fallback;
+  }
+  const clamped = Math.min(Math.max(Math.round(value), min), max);
+  if (clamped !== value) {
+    issues.push(`${path}.${field}: ${value} out of range, set to ${clamped}`);
+  }
+  return clamped;
+};
+
+/**
+ * Validate every item of a list, dropping items that can't be repaired and
+ * (when `getId` is given) later duplicates of the same ID
+ */
+const readList = <T>(
+  raw: Record<string, any>,
+  field: string,
+  validate: Validator<T>,
+  path: string,
+  issues: string[],
+  getId?: (item: T) => string
+): T[] => {
+  const list = raw[field];
+  if (!Array.isArray(list)) {
+    if (list !== undefined) {
+      issues.push(`${path}.${field}: expected a list, reset to empty`);
+    }
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const result: T[] = [];
+  list.forEach((item, index) => {
+    const value = validate(item, `${path}.${field}[${index}]`, issues);
+    if (value === null) return;
+
+    if (getId) {
+      const id = getId(value);
+      if (seen.has(id)) {
+        issues.push(`${path}.${field}[${index}]: duplicate "${id}" dropped`);
+        return;
+      }
+      seen.add(id);
+    }
+    result.push(value);
+  });
+  return result;
+};
+
+/**
+ * Drop an object that lacks its required ID field
+ */
+const requireId = (raw: unknown, field: string, path: string, issues: string[]): raw is Record<string, any> => {
+  if (!isObject(raw)) {
+    issues.push(`${path}: expected an object, dropped`);
+    return false;
+  }
+  if (!isNonEmptyString(raw[field])) {
+    issues.push(`${path}: missing ${field}, dropped`);
+    return false;
+  }
+  return true;
+};
+
+// Settings
+
+const validateTaskSchedule: Validator<TaskSchedule> = (raw, path, issues) => {
+  if (!isObject(raw)) {
+    issues.push(`${path}: expected an object, dropped`);
+    return null;
+  }
+
+  const days = Array.isArray(raw.days) ? raw.days : [];
+  const validDays = days.filter(
+    (day: unknown): day is DayOfWeek => typeof day === 'number' && Number.isInteger(day) && day >= 0 && day <= 6
+  );
+  if (!Array.isArray(raw.days) || validDays.length !== days.length) {
+    issues.push(`${path}.days: invalid days dropped`);
+  }
+
+  return {
+    enabled: readBoolean(raw, 'enabled', false, path, issues),
+    days: Array.from(new Set<DayOfWeek>(validDays)),
+  };
+};
+
+const validateTaskReminder: Validator<TaskReminder> = (raw, path, issues) => {
+  if (!isObject(raw)) {
+    issues.push(`${path}: expected an object, dropped`);
+    return null;
+  }
+
+  return {
+    enabled: readBoolean(raw, 'enabled', false, path, issues),
+    hour: readInteger(raw, 'hour', 0, 23, 20, path, issues),
+    minute: readInteger(raw, 'minute', 0, 59, 0, path, issues),
+  };
+};
+
+const validateTaskScale: Validator<TaskScale> = (raw, path, issues) => {
+  if (!isObject(raw)) {
+    issues.push(`${path}: expected an object, dropped`);
+    return null;
+  }
+
+  const min = readInteger(raw, 'min', SCALE_LOWEST, SCALE_HIGHEST - 1, DEFAULT_SCALE.min, path, issues);
+  const scale: TaskScale = {
+    min,
+    max: readInteger(raw, 'max', min + 1, SCALE_HIGHEST, Math.max(DEFAULT_SCALE.max, min + 1), path, issues),
+  };
+
+  if (raw.labels !== undefined) {
+    if (Array.isArray(raw.labels)) {
+      const labels = getScaleSteps(scale).map((_, i) => {
+        const label = raw.labels[i];
+        return typeof label === 'string' ? label.trim() : '';
+      });
+      if (labels.some(Boolean)) scale.labels = labels;
+    } else {
+      issues.push(`${path}.labels: expected a list, dropped`);
+    }
+  }
+  return scale;
+};
+
+const validateChoiceOption: Validator<ChoiceOption> = (raw, path, issues) => {
+  if (!requireId(raw, 'id', path, issues)) return null;
+  return { id: raw.id, label: readString(raw, 'label', '', path, issues) };
+};
+
+const validateTaskChoice: Validator<TaskChoice> = (raw, path, issues) => {
+  if (!isObject(raw)) {
+    issues.push(`${path}: expected an object, dropped`);
+    return null;
+  }
+
+  return {
+    options: readList(raw, 'options', validateChoiceOption, path, issues, (option) => option.id),
+    multiple: readBoolean(raw, 'multiple', false, path, issues),
+  };
+};
+
+const validateTask: Validator<Task> = (raw, path, issues) => {
+  if (!requireId(raw, 'id', path, issues)) return null;
+
+  let type: TaskType = raw.type;
+  if (!TASK_TYPES.includes(type)) {
+    issues.push(`${path}.type: unknown type "${raw.type}", reset to "checkbox"`);
+    type = 'checkbox';
+  }
+
+  const task: Task = {
+    id: raw.id,
+    name: readString(raw, 'name', '', path, issues),
+    type,
+  };
+
+  if (raw.unit !== undefined) {
+    if (typeof raw.unit === 'string') {
+      task.unit = raw.unit;
+    } else {
+      issues.push(`${path}.unit: expected a string, dropped`);
+    }
+  }
+  if (raw.scale !== undefined) {
+    const scale = validateTaskScale(raw.scale, `${path}.scale`, issues);
+    if (scale) task.scale = scale;
+  }
+  if (raw.choice !== undefined) {
+    const choice = validateTaskChoice(raw.choice, `${path}.choice`, issues);
+    if (choice) task.choice = choice;
+  }
+  if (raw.schedule !== undefined) {
+    const schedule = validateTaskSchedule(raw.schedule, `${path}.schedule`, issues);
+    if (schedule) task.schedule = schedule;
+  }
+  if (raw.reminder !== undefined) {
+    const reminder = validateTaskReminder(raw.reminder, `${path}.reminder`, issues);
+    if (reminder) task.reminder = reminder;
+  }
+  return { ...task, ...readArchivedAt(raw, path, issues) };
+};
+
+const validateSection: Validator<Section> = (raw, path, issues) => {
+  if (!requireId(raw, 'id', path, issues)) return null;
+
+  return {
+    id: raw.id,
+    name: readString(raw, 'name', '', path, issues),
+    tasks: readList(raw, 'tasks', validateTask, path, issues, (task) => task.id),
+    ...readArchivedAt(raw, path, issues),
+  };
+};
+
+const validateFamilyMember: Validator<FamilyMember> = (raw, path, issues) => {
+  if (!requireId(raw, 'id', path, issues)) return null;
+
+  return {
+    id: raw.id,
+    name: readString(raw, 'name', '', path, issues),
+    color: readString(raw, 'color', DEFAULT_MEMBER_COLOR, path, issues),
+    sections: readList(raw, 'sections', validateSection, path, issues, (section) => section.id),
+    ...readArchivedAt(raw, path, issues),
+  };
+};
+
+const validateHistoryTarget: Validator<HistoryTarget> = (raw, path, issues) => {
+  if (!requireId(raw, 'memberId', path, issues)) return null;
+
+  // A malformed narrower target must not turn into a purge of everything above it
+  const hasSection = isNonEmptyString(raw.sectionId);
+  const hasTask = isNonEmptyString(raw.taskId);
+  const badSection = raw.sectionId !== undefined && !hasSection;
+  const badTask = raw.taskId !== undefined && !(hasSection && hasTask);
+  if (badSection || badTask) {
+    issues.push(`${path}: malformed target, dropped`);
+    return null;
+  }
+
+  return {
+    memberId: raw.memberId,
+    ...(hasSection ? { sectionId: raw.sectionId } : {}),
+    ...(raw.taskId !== undefined ? { taskId: raw.taskId } : {}),
+  };
+};
+
+const validateAppSettingsShape: Validator<AppSettings> = (raw, path, issues) => {
+  if (!isObject(raw) || !Array.isArray(raw.members)) {
+    issues.push(`${path}: no members list`);
+    return null;
+  }
+
+  const purgedHistory = readList(raw, 'purgedHistory', validateHistoryTarget, path, issues);
+  return {
+    schemaVersion: typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0,
+    members: readList(raw, 'members', validateFamilyMember, path, issues, (member) => member.id),
+    ...(purgedHistory.length > 0 ? { purgedHistory } : {}),
+    lastModified: readString(raw, 'lastModified', EPOCH, path, issues),
+  };
+};
+
+// Entries
+
+/**
+ * A task response value, or undefined when it isn't one. Lists (choice
+ * answers) keep their distinct strings.
+ */
+const readResponseValue = (value: unknown): TaskResponse['value'] | undefined => {
+  if (typeof value === 'boolean' || typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value))) {
+    return value;
+  }
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+    return Array.from(new Set<string>(value));
+  }
+  return undefined;
+};
+
+const validateTaskResponse: Validator<TaskResponse> = (raw, path, issues) => {
+  if (!requireId(raw, 'taskId', path, issues)) return null;
+
+  const value = readResponseValue(raw.value);
+  if (value === undefined) {
+    issues.push(`${path}.value: unsupported value ${JSON.stringify(raw.value)}, dropped`);
+    return null;
+  }
+
+  const response: TaskResponse = { taskId: raw.taskId, value };
+  if (typeof raw.lastModified === 'string') {
+    response.lastModified = raw.lastModified;
+  }
+  return response;
+};
+
+// Check the ID and kind that locate an attachment's file, locally and in the backup
+const requireAttachmentRef = (raw: unknown, path: string, issues: string[]): raw is Record<string, any> => {
+  if (!requireId(raw, 'id', path, issues)) return false;
+
+  if (!/^[A-Za-z0-9-]+$/.test(raw.id)) {
+    issues.push(`${path}.id: unusable ID "${raw.id}", dropped`);
+    return false;
+  }
+  if (!ATTACHMENT_KINDS.includes(raw.kind)) {
+    issues.push(`${path}.kind: unknown kind "${raw.kind}", dropped`);
+    return false;
+  }
+  return true;
+};
+
+const validateAttachment: Validator<Attachment> = (raw, path, issues) => {
+  if (!requireAttachmentRef(raw, path, issues)) return null;
+
+  const attachment: Attachment = {
+    id: raw.id,
+    kind: raw.kind,
+    mimeType: readString(raw, 'mimeType', 'application/octet-stream', path, issues),
+    createdAt: readString(raw, 'createdAt', EPOCH, path, issues),
+  };
+  if (raw.width !== undefined || raw.height !== undefined) {
+    attachment.width = readInteger(raw, 'width', 1, 100000, 1, path, issues);
+    attachment.height = readInteger(raw, 'height', 1, 100000, 1, path, issues);
+  }
+  if (raw.durationMs !== undefined) {
+    attachment.durationMs = readInteger(raw, 'durationMs', 0, Number.MAX_SAFE_INTEGER, 0, path, issues);
+  }
+  if (typeof raw.removedAt === 'string') {
+    attachment.removedAt = raw.removedAt;
+  }
+  return attachment;
+};
+
+const validateClearedResponse: Validator<ClearedResponse> = (raw, path, issues) => {
+  if (!requireId(raw, 'taskId', path, issues)) return null;
+  if (!isNonEmptyString(raw.clearedAt) || isNaN(Date.parse(raw.clearedAt))) {
+    issues.push(`${path}.clearedAt: invalid timestamp, dropped`);
+    return null;
+  }
+  return { taskId: raw.taskId, clearedAt: raw.clearedAt };
+};
+
+const validateSectionEntry: Validator<SectionEntry> = (raw, path, issues) => {
+  if (!requireId(raw, 'sectionId', path, issues)) return null;
+
+  const sectionEntry: SectionEntry = {
+    sectionId: raw.sectionId,
+    taskResponses: readList(raw, 'taskResponses', validateTaskResponse, path, issues, (tr) => tr.taskId),
+    notes: readString(raw, 'notes', '', path, issues),
+  };
+  if (typeof raw.notesModified === 'string') {
+    sectionEntry.notesModified = raw.notesModified;
+  }
+  if (raw.attachments !== undefined) {
+    const attachments = readList(raw, 'attachments', validateAttachment, path, issues, (attachment) => attachment.id);
+    if (attachments.length > 0) sectionEntry.attachments = attachments;
+  }
+  if (raw.clearedResponses !== undefined) {
+    const cleared = readList(raw, 'clearedResponses', validateClearedResponse, path, issues, (c) => c.taskId);
+    if (cleared.length > 0) sectionEntry.clearedResponses = cleared;
+  }
+  return sectionEntry;
+};
+
+const validateDailyEntry: Validator<DailyEntry> = (raw, path, issues) => {
+  if (!requireId(raw, 'memberId', path, issues)) return null;
+
+  if (!isNonEmptyString(raw.date) || !/^\d{4}-\d{2}-\d{2}$/.test(raw.date) || !isValidDateString(raw.date)) {
+    issues.push(`${path}: invalid date ${JSON.stringify(raw.date)}, dropped`);
+    return null;
+  }
+
+  return {
+    date: raw.date,
+    memberId: raw.memberId,
+    sectionEntries: readList(raw, 'sectionEntries', validateSectionEntry, path, issues, (se) => se.sectionId),
+    lastModified: readString(raw, 'lastModified', EPOCH, path, issues),
+  };
+};
+
+const validateEntryChange: Validator<EntryChange> = (raw, path, issues) => {
+  if (!requireId(raw, 'id', path, issues)) return null;
+  if (
+    !isNonEmptyString(raw.memberId) ||
+    !isNonEmptyString(raw.sectionId) ||
+    !isNonEmptyString(raw.date) ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(raw.date) ||
+    !isValidDateString(raw.date)
+  ) {
+    issues.push(`${path}: change without a member, section or date, dropped`);
+    return null;
+  }
+  if (!isNonEmptyString(raw.timestamp) || isNaN(Date.parse(raw.timestamp))) {
+    issues.push(`${path}.timestamp: invalid timestamp, dropped`);
+    return null;
+  }
+
+  const change: EntryChange = {
+    id: raw.id,
+    memberId: raw.memberId,
+    date: raw.date,
+    sectionId: raw.sectionId,
+    author: readString(raw, 'author', '', path, issues),
+    timestamp: raw.timestamp,
+  };
+  if (isNonEmptyString(raw.taskId)) {
+    change.taskId = raw.taskId;
+  }
+  const value = readResponseValue(raw.value);
+  if (value !== undefined) {
+    change.value = value;
+  }
+  return change;
+};
+
+const validateMonthlyEntriesShape: Validator<MonthlyEntries> = (raw, path, issues) => {
+  if (!isObject(raw) || typeof raw.month !== 'string' || !/^\d{4}-\d{2}$/.test(raw.month)) {
+    issues.push(`${path}: missing or invalid month`);
+    return null;
+  }
+
+  const month: string = raw.month;
+  const entries = readList(
+    raw,
+    'entries',
+    validateDailyEntry,
+    path,
+    issues,
+    (entry) => `${entry.memberId}_${entry.date}`
+  ).filter((entry) => {
+    if (entry.date.startsWith(month)) return true;
+    issues.push(`${path}: entry for ${entry.date} doesn't belong to ${month}, dropped`);
+    return false;
+  });
+
+  const changeLog = readList(raw, 'changeLog', validateEntryChange, path, issues, (change) => change.id);
+
+  return {
+    schemaVersion: typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0,
+    month,
+    entries,
+    ...(changeLog.length > 0 ? { changeLog } : {}),
+    lastModified: readString(raw, 'lastModified', EPOCH, path, issues),
+  };
+};
+
+// Device state
+
+const validateAuthStateShape: Validator<AuthState> = (raw, path, issues) => {
+  if (!isObject(raw)) {
+    issues.push(`${path}: expected an object`);
+    return null;
+  }
+
+  const readNullableString = (field: string): string | null => {
+    if (raw[field] === null || typeof raw[field] === 'string') {
+      return raw[field];
+    }
+    if (raw[field] !== undefined) {
+      issues.push(`${path}.${field}: expected a string, cleared`);
+    }
+    return null;
+  };
+
+  return {
+    isAuthenticated: readBoolean(raw, 'isAuthenticated', false, path, issues),
+    isGuest: readBoolean(raw, 'isGuest', false, path, issues),
+    accessToken: readNullableString('accessToken'),
+    userEmail: readNullableString('userEmail'),
+    userName: readNullableString('userName'),
+    sessionExpired: typeof raw.sessionExpired === 'boolean' ? raw.sessionExpired : false,
+  };
+};
+
+const validateWebDavConfigShape: Validator<WebDavConfig> = (raw, path, issues) => {
+  if (!isObject(raw) || !isNonEmptyString(raw.url)) {
+    issues.push(`${path}: missing server URL`);
+    return null;
+  }
+
+  return {
+    url: raw.url,
+    username: readString(raw, 'username', '', path, issues),
+    password: readString(raw, 'password', '', path, issues),
+  };
+};
+
+const validateSyncStateShape: Validator<Pick<SyncState, 'lastSyncTime'>> = (raw, path, issues) => {
+  if (!isObject(raw)) {
+    issues.push(`${path}: expected an object`);
+    return null;
+  }
+  if (raw.lastSyncTime !== null && typeof raw.lastSyncTime !== 'string') {
+    issues.push(`${path}.lastSyncTime: expected a string, cleared`);
+    return { lastSyncTime: null };
+  }
+  return { lastSyncTime: raw.lastSyncTime };
+};
+
+const validateStopwatch: Validator<Stopwatch> = (raw, path, issues) => {
+  if (!isObject(raw)) {
+    issues.push(`${path}: expected an object, dropped`);
+    return null;
+  }
+  if (
+    !isNonEmptyString(raw.memberId) ||
+    !isNonEmptyString(raw.sectionId) ||
+    !isNonEmptyString(raw.taskId) ||
+    !isValidDateString(raw.date)
+  ) {
+    issues.push(`${path}: missing its task or date, dropped`);
+    return null;
+  }
+
+  const startedAt = typeof raw.startedAt === 'string' && !isNaN(Date.parse(raw.startedAt)) ? raw.startedAt : null;
+  if (raw.startedAt !== null && startedAt === null) {
+    issues.push(`${path}.startedAt: expected a timestamp, paused`);
+  }
+  return {
+    memberId: raw.memberId,
+    date: raw.date,
+    sectionId: raw.sectionId,
+    taskId: raw.taskId,
+    startedAt,
+    baseSeconds: readInteger(raw, 'baseSeconds', 0, Number.MAX_SAFE_INTEGER, 0, path, issues),
+  };
+};
+
+const validateStopwatchStateShape: Validator<{ stopwatches: Stopwatch[] }> = (raw, path, issues) => {
+  if (!isObject(raw)) {
+    issues.push(`${path}: expected an object`);
+    return null;
+  }
+  return {
+    stopwatches: readList(raw, 'stopwatches', validateStopwatch, path, issues, (stopwatch) =>
+      getStopwatchKey(stopwatch.memberId, stopwatch.date, stopwatch.sectionId, stopwatch.taskId)
+    ),
+  };
+};
+
+const validateArchivedAttachmentShape: Validator<ArchivedAttachment> = (raw, path, issues) => {
+  if (!requireAttachmentRef(raw, path, issues)) return null;
+  if (!isNonEmptyString(raw.data)) {
+    issues.push(`${path}.data: missing file content, dropped`);
+    return null;
+  }
+  return { id: raw.id, kind: raw.kind, data: raw.data };
+};
+
+/**
+ * Run a top-level validator and collect its report
+ */
+const run = <T>(validate: Validator<T>, raw: unknown, label: string): ValidationResult<T> => {
+  const issues: string[] = [];
+  const value = validate(raw, label, issues);
+  return { value, issues };
+};
+
+export const validateAppSettings = (raw: unknown) => run(validateAppSettingsShape, raw, 'settings');
+export const validateMonthlyEntries = (raw: unknown) => run(validateMonthlyEntriesShape, raw, 'month');
+export const validateAuthState = (raw: unknown) => run(validateAuthStateShape, raw, 'auth');
+export const validateWebDavConfig = (raw: unknown) => run(validateWebDavConfigShape, raw, 'webdav');
+export const validateSyncState = (raw: unknown) => run(validateSyncStateShape, raw, 'syncState');
+export const validateStopwatchState = (raw: unknown) => run(validateStopwatchStateShape, raw, 'stopwatchState');
+export const validateArchivedAttachment = (raw: unknown) => run(validateArchivedAttachmentShape, raw, 'attachment');